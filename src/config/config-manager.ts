@@ -1,9 +1,19 @@
-import type { Config, Stage, StopLoss } from '../types';
+import type { Config, DcaMode, EntryMode, PriceConfirmSource, PriceProviderName, PriorityFeeConfig, PriorityFeeMode, SellRetryPolicy, SizingMode, Stage, StopLoss, StopRatchet, StrategyProfile, TimeExit, TrailingStop, TxCommitment } from '../types';
+
+/**
+ * Nome do perfil usado quando nenhum perfil configurado cobre o score do token
+ */
+export const DEFAULT_PROFILE_NAME = 'default';
+
+/**
+ * Chaves que podem ser notificadas em mudanças de configuração
+ */
+export type ConfigChangeKey = keyof Config | 'stages' | 'stopLosses' | 'trailingStops' | 'stopRatchets' | 'timeExits' | 'profiles';
 
 /**
  * Callback executado quando uma configuração é alterada
  */
-export type ConfigChangeCallback = (key: keyof Config | 'stages' | 'stopLosses', oldValue: any, newValue: any) => void;
+export type ConfigChangeCallback = (key: ConfigChangeKey, oldValue: any, newValue: any) => void;
 
 /**
  * Gerenciador de Configurações Singleton
@@ -15,9 +25,17 @@ export class ConfigManager {
   private _config: Config;
   private _stages: Stage[];
   private _stopLosses: StopLoss[];
+  private _trailingStops: TrailingStop[];
+  private _stopRatchets: StopRatchet[];
+  private _timeExits: TimeExit[];
+  private _profiles: StrategyProfile[];
   private _defaultConfig: Config;
   private _defaultStages: Stage[];
   private _defaultStopLosses: StopLoss[];
+  private _defaultTrailingStops: TrailingStop[];
+  private _defaultStopRatchets: StopRatchet[];
+  private _defaultTimeExits: TimeExit[];
+  private _defaultProfiles: StrategyProfile[];
   private _initialized = false;
   private _changeCallbacks: ConfigChangeCallback[] = [];
 
@@ -25,9 +43,17 @@ export class ConfigManager {
     this._config = {} as Config;
     this._stages = [];
     this._stopLosses = [];
+    this._trailingStops = [];
+    this._stopRatchets = [];
+    this._timeExits = [];
+    this._profiles = [];
     this._defaultConfig = {} as Config;
     this._defaultStages = [];
     this._defaultStopLosses = [];
+    this._defaultTrailingStops = [];
+    this._defaultStopRatchets = [];
+    this._defaultTimeExits = [];
+    this._defaultProfiles = [];
   }
 
   /**
@@ -52,11 +78,19 @@ export class ConfigManager {
     this._config = this.loadConfig();
     this._stages = this.loadStages();
     this._stopLosses = this.loadStopLosses();
+    this._trailingStops = this.loadTrailingStops();
+    this._stopRatchets = this.loadStopRatchets();
+    this._timeExits = this.loadTimeExits();
+    this._profiles = this.loadProfiles();
 
     // Salvar como valores padrão para reset futuro
     this._defaultConfig = { ...this._config };
     this._defaultStages = this._stages.map(stage => ({ ...stage }));
     this._defaultStopLosses = this._stopLosses.map(sl => ({ ...sl }));
+    this._defaultTrailingStops = this._trailingStops.map(ts => ({ ...ts }));
+    this._defaultStopRatchets = this._stopRatchets.map(rs => ({ ...rs }));
+    this._defaultTimeExits = this._timeExits.map(te => ({ ...te }));
+    this._defaultProfiles = this._profiles.map(profile => this.cloneProfile(profile));
 
     this._initialized = true;
   }
@@ -85,6 +119,74 @@ export class ConfigManager {
     return this._stopLosses;
   }
 
+  /**
+   * Retorna os níveis de trailing stop
+   */
+  public get trailingStops(): TrailingStop[] {
+    this.ensureInitialized();
+    return this._trailingStops;
+  }
+
+  /**
+   * Retorna as regras de ratchet do stop (stops que sobem após TPs)
+   */
+  public get stopRatchets(): StopRatchet[] {
+    this.ensureInitialized();
+    return this._stopRatchets;
+  }
+
+  /**
+   * Retorna as regras de saída por tempo
+   */
+  public get timeExits(): TimeExit[] {
+    this.ensureInitialized();
+    return this._timeExits;
+  }
+
+  /**
+   * Retorna os perfis de estratégia configurados (por faixa de score)
+   */
+  public get profiles(): StrategyProfile[] {
+    this.ensureInitialized();
+    return this._profiles;
+  }
+
+  /**
+   * Perfil padrão, montado a partir da configuração global (amountSol, slippage, TPs e SLs)
+   */
+  public get defaultProfile(): StrategyProfile {
+    this.ensureInitialized();
+    return {
+      name: DEFAULT_PROFILE_NAME,
+      minScore: 0,
+      maxScore: Number.POSITIVE_INFINITY,
+      amountSol: this._config.amountSol,
+      slippageBps: this._config.slippageBps,
+      stages: this._stages,
+      stopLosses: this._stopLosses,
+    };
+  }
+
+  /**
+   * Retorna o perfil pelo nome, ou o perfil padrão se não existir
+   * @param name Nome do perfil (ex: o salvo em Position.profile)
+   */
+  public getProfile(name?: string): StrategyProfile {
+    this.ensureInitialized();
+    return this._profiles.find(profile => profile.name === name) || this.defaultProfile;
+  }
+
+  /**
+   * Escolhe o perfil cuja faixa de score contém o score do token
+   * O primeiro perfil que casar vence; sem nenhum, usa o perfil padrão
+   * @param score Score do token no finder
+   */
+  public getProfileForScore(score: number): StrategyProfile {
+    this.ensureInitialized();
+    return this._profiles.find(profile => score >= profile.minScore && score <= profile.maxScore)
+      || this.defaultProfile;
+  }
+
   /**
    * Verifica se uma configuração está inicializada
    */
@@ -159,6 +261,63 @@ export class ConfigManager {
     this.notifyChange('stopLosses', oldStopLosses, this._stopLosses);
   }
 
+  /**
+   * Atualiza os níveis de trailing stop
+   * @param trailingStops Novos trailing stops
+   */
+  public setTrailingStops(trailingStops: TrailingStop[]): void {
+    this.ensureInitialized();
+    this.validateTrailingStops(trailingStops);
+
+    const oldTrailingStops = [...this._trailingStops];
+    this._trailingStops = trailingStops.map(ts => ({ ...ts }));
+
+    this.notifyChange('trailingStops', oldTrailingStops, this._trailingStops);
+  }
+
+  /**
+   * Atualiza as regras de ratchet do stop
+   * @param stopRatchets Novas regras (cada uma ligada a um estágio de take-profit)
+   */
+  public setStopRatchets(stopRatchets: StopRatchet[]): void {
+    this.ensureInitialized();
+    this.validateStopRatchets(stopRatchets);
+
+    const oldStopRatchets = [...this._stopRatchets];
+    this._stopRatchets = stopRatchets.map(rs => ({ ...rs }));
+
+    this.notifyChange('stopRatchets', oldStopRatchets, this._stopRatchets);
+  }
+
+  /**
+   * Atualiza as regras de saída por tempo
+   * @param timeExits Novas regras
+   */
+  public setTimeExits(timeExits: TimeExit[]): void {
+    this.ensureInitialized();
+    this.validateTimeExits(timeExits);
+
+    const oldTimeExits = [...this._timeExits];
+    this._timeExits = timeExits.map(te => ({ ...te }));
+
+    this.notifyChange('timeExits', oldTimeExits, this._timeExits);
+  }
+
+  /**
+   * Atualiza os perfis de estratégia
+   * Posições abertas continuam usando o perfil salvo nelas (pelo nome)
+   * @param profiles Novos perfis
+   */
+  public setProfiles(profiles: StrategyProfile[]): void {
+    this.ensureInitialized();
+    this.validateProfiles(profiles);
+
+    const oldProfiles = [...this._profiles];
+    this._profiles = profiles.map(profile => this.cloneProfile(profile));
+
+    this.notifyChange('profiles', oldProfiles, this._profiles);
+  }
+
   /**
    * Adiciona um callback para ser notificado sobre mudanças
    * @param callback Função a ser chamada quando configuração mudar
@@ -197,6 +356,10 @@ export class ConfigManager {
     this.updateConfig(updates);
     this.setStages([...this._defaultStages]);
     this.setStopLosses([...this._defaultStopLosses]);
+    this.setTrailingStops([...this._defaultTrailingStops]);
+    this.setStopRatchets([...this._defaultStopRatchets]);
+    this.setTimeExits([...this._defaultTimeExits]);
+    this.setProfiles([...this._defaultProfiles]);
   }
 
   /**
@@ -223,6 +386,38 @@ export class ConfigManager {
     return this._defaultStopLosses;
   }
 
+  /**
+   * Retorna os trailing stops padrão
+   */
+  public get defaultTrailingStops(): Readonly<TrailingStop[]> {
+    this.ensureInitialized();
+    return this._defaultTrailingStops;
+  }
+
+  /**
+   * Retorna as regras de ratchet padrão
+   */
+  public get defaultStopRatchets(): Readonly<StopRatchet[]> {
+    this.ensureInitialized();
+    return this._defaultStopRatchets;
+  }
+
+  /**
+   * Retorna as regras de saída por tempo padrão
+   */
+  public get defaultTimeExits(): Readonly<TimeExit[]> {
+    this.ensureInitialized();
+    return this._defaultTimeExits;
+  }
+
+  /**
+   * Retorna os perfis de estratégia padrão
+   */
+  public get defaultProfiles(): Readonly<StrategyProfile[]> {
+    this.ensureInitialized();
+    return this._defaultProfiles;
+  }
+
   /**
    * Recarrega as configurações (útil para testes ou mudanças em runtime)
    */
@@ -230,6 +425,10 @@ export class ConfigManager {
     this._config = this.loadConfig();
     this._stages = this.loadStages();
     this._stopLosses = this.loadStopLosses();
+    this._trailingStops = this.loadTrailingStops();
+    this._stopRatchets = this.loadStopRatchets();
+    this._timeExits = this.loadTimeExits();
+    this._profiles = this.loadProfiles();
     this._initialized = true;
   }
 
@@ -271,6 +470,20 @@ export class ConfigManager {
     return value.toLowerCase() === 'true';
   }
 
+  /**
+   * Obtém valor de variável de ambiente restrito a uma lista de opções
+   */
+  private getEnvEnum<T extends string>(key: string, allowed: readonly T[], defaultValue: T): T {
+    const value = process.env[key];
+    if (!value) return defaultValue;
+
+    const normalized = value.trim().toLowerCase() as T;
+    if (!allowed.includes(normalized)) {
+      throw new Error(`❌ Variável ${key} deve ser uma de: ${allowed.join(', ')}, recebido: "${value}"`);
+    }
+    return normalized;
+  }
+
   /**
    * Carrega múltiplas API keys do Jupiter (separadas por vírgula)
    */
@@ -279,10 +492,80 @@ export class ConfigManager {
     return keys.split(',').map(k => k.trim()).filter(k => k.length > 0);
   }
 
+  /**
+   * Carrega a lista de módulos de estratégias de saída customizadas (separados por vírgula)
+   */
+  private getExitStrategyModules(): string[] {
+    const modules = process.env.EXIT_STRATEGY_MODULES || '';
+    return modules.split(',').map(m => m.trim()).filter(m => m.length > 0);
+  }
+
+  /**
+   * Fontes de preço em ordem de prioridade (separadas por vírgula)
+   */
+  private getPriceProviders(): PriceProviderName[] {
+    const allowed: PriceProviderName[] = ['jupiter', 'pool', 'quote'];
+    const providers = (process.env.PRICE_PROVIDERS || allowed.join(','))
+      .split(',')
+      .map(p => p.trim().toLowerCase())
+      .filter(p => p.length > 0);
+
+    const invalid = providers.filter(p => !allowed.includes(p as PriceProviderName));
+    if (invalid.length > 0) {
+      throw new Error(`❌ Variável PRICE_PROVIDERS aceita apenas: ${allowed.join(', ')}, recebido: "${invalid.join(', ')}"`);
+    }
+    return providers as PriceProviderName[];
+  }
+
+  /**
+   * Carrega a configuração de priority fee de um lado (BUY_PRIORITY_FEE_* / SELL_PRIORITY_FEE_*)
+   */
+  private loadPriorityFee(side: 'BUY' | 'SELL'): PriorityFeeConfig {
+    return {
+      mode: this.getEnvEnum<PriorityFeeMode>(`${side}_PRIORITY_FEE_MODE`, ['jupiter', 'fixed', 'percentile'], 'jupiter'),
+      microLamports: this.getEnvNumber(`${side}_PRIORITY_FEE_MICROLAMPORTS`, 100000),
+      percentile: this.getEnvNumber(`${side}_PRIORITY_FEE_PERCENTILE`, 75),
+      maxMicroLamports: this.getEnvNumber(`${side}_PRIORITY_FEE_MAX_MICROLAMPORTS`, 1000000),
+      computeUnitLimit: this.getEnvNumber(`${side}_COMPUTE_UNIT_LIMIT`, 0),
+    };
+  }
+
+  /**
+   * Carrega a política de retentativa de vendas (TP_SELL_* / SL_SELL_*)
+   */
+  private loadSellRetryPolicy(prefix: 'TP' | 'SL', defaults: SellRetryPolicy): SellRetryPolicy {
+    return {
+      maxAttempts: this.getEnvNumber(`${prefix}_SELL_MAX_ATTEMPTS`, defaults.maxAttempts),
+      slippageStepBps: this.getEnvNumber(`${prefix}_SELL_SLIPPAGE_STEP_BPS`, defaults.slippageStepBps),
+      maxSlippageBps: this.getEnvNumber(`${prefix}_SELL_MAX_SLIPPAGE_BPS`, defaults.maxSlippageBps),
+      backoffMs: this.getEnvNumber(`${prefix}_SELL_BACKOFF_MS`, defaults.backoffMs),
+    };
+  }
+
+  /**
+   * Descreve a configuração de priority fee para o log
+   */
+  private describePriorityFee(fee: PriorityFeeConfig): string {
+    const cap = fee.maxMicroLamports > 0 ? `, teto ${fee.maxMicroLamports}` : '';
+    const cu = fee.computeUnitLimit > 0 ? `, ${fee.computeUnitLimit} CU` : '';
+
+    switch (fee.mode) {
+      case 'fixed':
+        return `${fee.microLamports} µlamports/CU${cap}${cu}`;
+      case 'percentile':
+        return `p${fee.percentile} das taxas recentes${cap}${cu}`;
+      default:
+        return `definido pelo Jupiter${cu}`;
+    }
+  }
+
   /**
    * Carrega configuração principal
    */
   private loadConfig(): Config {
+    // Paper trading grava posições e journal em arquivos separados dos reais
+    const paperTrading = this.getEnvBoolean('PAPER_TRADING', false);
+
     return {
       // URLs e identificadores
       siteUrl: 'https://gangue.macaco.club/ferramentas/tokenfinder/',
@@ -294,111 +577,297 @@ export class ConfigManager {
       jupApiKey: this.getEnv('JUP_API_KEY'), // Mantém compatibilidade
       jupApiKeys: this.getJupiterApiKeys(),
       rpcUrl: this.getEnv('RPC_URL', 'https://api.mainnet-beta.solana.com'),
+      rpcWsUrl: process.env.RPC_WS_URL || '',
 
       // Parâmetros de trading
       amountSol: this.getEnvNumber('AMOUNT_SOL', 0.10),
       slippageBps: this.getEnvNumber('SLIPPAGE_BPS', 300),
 
+      // Reserva de SOL para as taxas das vendas (compras nunca gastam esse saldo)
+      solReserveSol: this.getEnvNumber('SOL_RESERVE', 0.05),
+      solReserveWarnSol: this.getEnvNumber('SOL_RESERVE_WARN', 0.1),
+
+      // Dimensionamento da posição
+      sizingMode: this.getEnvEnum<SizingMode>('SIZING_MODE', ['fixed', 'percent', 'score'], 'fixed'),
+      sizingPercent: this.getEnvNumber('SIZING_PERCENT', 5),
+      sizingScoreReference: this.getEnvNumber('SIZING_SCORE_REFERENCE', 50),
+      sizingMinSol: this.getEnvNumber('SIZING_MIN_SOL', 0),
+      sizingMaxSol: this.getEnvNumber('SIZING_MAX_SOL', 0),
+
+      // Entrada em parcelas (DCA)
+      dcaTranches: this.getEnvNumber('DCA_TRANCHES', 1),
+      dcaMode: this.getEnvEnum<DcaMode>('DCA_MODE', ['time', 'dip'], 'time'),
+      dcaIntervalMs: this.getEnvNumber('DCA_INTERVAL_MS', 60000),
+      dcaDipPercent: this.getEnvNumber('DCA_DIP_PERCENT', 10),
+      dcaExpireMs: this.getEnvNumber('DCA_EXPIRE_MS', 0),
+
       // Intervalos e timing
       checkIntervalMs: this.getEnvNumber('CHECK_INTERVAL_MS', 2000),
       priceCheckSeconds: this.getEnvNumber('PRICE_CHECK_SECONDS', 10),
+      priceProviders: this.getPriceProviders(),
+
+      // Validação de ticks (rejeita saltos não confirmados antes de avaliar TP/SL)
+      priceMaxJumpPercent: this.getEnvNumber('PRICE_MAX_JUMP_PERCENT', 50),
+      priceConfirmSource: this.getEnvEnum<PriceConfirmSource>('PRICE_CONFIRM_SOURCE', ['read', 'quote'], 'read'),
+      priceMaxRejections: this.getEnvNumber('PRICE_MAX_REJECTIONS', 3),
+      stopLossConfirmTicks: this.getEnvNumber('STOP_LOSS_CONFIRM_TICKS', 1),
       buyDelayMs: this.getEnvNumber('BUY_DELAY_MS', 0), // Novo: delay antes da compra
 
+      // Modo de entrada (delay fixo ou compra no pullback)
+      entryMode: this.getEnvEnum<EntryMode>('ENTRY_MODE', ['delay', 'dip'], 'delay'),
+      dipEntryPercent: this.getEnvNumber('DIP_ENTRY_PERCENT', 20),
+      dipEntryWindowMs: this.getEnvNumber('DIP_ENTRY_WINDOW_MS', 300000),
+
+      // Moonbag (parte da posição que os estágios de saída nunca vendem)
+      moonbagPercent: this.getEnvNumber('MOONBAG_PERCENT', 0),
+
+      // Estratégias de saída customizadas
+      exitStrategyModules: this.getExitStrategyModules(),
+
+      // Confirmação de transações
+      txCommitment: this.getEnvEnum<TxCommitment>('TX_COMMITMENT', ['confirmed', 'finalized'], 'confirmed'),
+      txConfirmTimeoutMs: this.getEnvNumber('TX_CONFIRM_TIMEOUT_MS', 90000),
+      txMaxResends: this.getEnvNumber('TX_MAX_RESENDS', 2),
+      swapFallbackEnabled: this.getEnvBoolean('SWAP_FALLBACK', true),
+      closeEmptyAccounts: this.getEnvBoolean('CLOSE_EMPTY_ACCOUNTS', true),
+
+      // Cache de saldos da wallet (assinaturas websocket + releitura periódica)
+      balanceCacheEnabled: this.getEnvBoolean('BALANCE_CACHE', true),
+      balanceRefreshMs: this.getEnvNumber('BALANCE_REFRESH_MS', 60000),
+
+      // Priority fee e compute units (separados para compra e venda)
+      buyPriorityFee: this.loadPriorityFee('BUY'),
+      sellPriorityFee: this.loadPriorityFee('SELL'),
+
+      // Checagem de segurança antes da compra (honeypot / autoridades / transfer fee)
+      safetyCheckEnabled: this.getEnvBoolean('SAFETY_CHECK', true),
+      safetyMaxRoundTripLossPercent: this.getEnvNumber('SAFETY_MAX_ROUND_TRIP_LOSS_PERCENT', 15),
+      safetyMaxPriceImpactPercent: this.getEnvNumber('SAFETY_MAX_PRICE_IMPACT_PERCENT', 10),
+      safetyAllowFreezeAuthority: this.getEnvBoolean('SAFETY_ALLOW_FREEZE_AUTHORITY', false),
+      safetyAllowMintAuthority: this.getEnvBoolean('SAFETY_ALLOW_MINT_AUTHORITY', false),
+      safetyMaxTransferFeeBps: this.getEnvNumber('SAFETY_MAX_TRANSFER_FEE_BPS', 0),
+
+      // Retentativas de venda com slippage escalonado (stops mais agressivos que TPs)
+      tpSellRetry: this.loadSellRetryPolicy('TP', { maxAttempts: 3, slippageStepBps: 100, maxSlippageBps: 800, backoffMs: 1500 }),
+      slSellRetry: this.loadSellRetryPolicy('SL', { maxAttempts: 5, slippageStepBps: 300, maxSlippageBps: 2500, backoffMs: 500 }),
+
+      // Vendas de take-profit em partes quando o impacto de preço é alto
+      sellMaxImpactPercent: this.getEnvNumber('SELL_MAX_IMPACT_PERCENT', 0),
+      sellMaxChunks: this.getEnvNumber('SELL_MAX_CHUNKS', 4),
+      sellChunkIntervalMs: this.getEnvNumber('SELL_CHUNK_INTERVAL_MS', 15000),
+
       // Filtros e parâmetros
       minScore: this.getEnvNumber('MIN_SCORE', 0),
 
       // Configurações técnicas
       headless: this.getEnvBoolean('HEADLESS', true),
-      stateFile: './state.json',
+      stateFile: paperTrading ? './state.paper.json' : './state.json',
+      journalFile: paperTrading ? './journal.paper.json' : './journal.json',
+
+      // Paper trading (fills simulados em carteira virtual)
+      paperTrading,
+      paperStartingSol: this.getEnvNumber('PAPER_STARTING_SOL', 10),
+      paperSlippageBps: this.getEnvNumber('PAPER_SLIPPAGE_BPS', 100),
+      paperFeeSol: this.getEnvNumber('PAPER_FEE_SOL', 0.0001),
+      paperWalletFile: './paper-wallet.json',
     };
   }
 
   /**
-   * Carrega estágios de take-profit
+   * Retorna os índices (em ordem crescente) das variáveis PREFIXOn_SUFIXO definidas no .env
+   * Ex: getEnvIndexes('SL', 'MULTIPLE') → [1, 2, 7] para SL1_MULTIPLE, SL2_MULTIPLE e SL7_MULTIPLE
+   */
+  private getEnvIndexes(prefix: string, suffix: string): number[] {
+    const pattern = new RegExp(`^${prefix}(\\d+)_${suffix}$`);
+    const indexes = new Set<number>();
+
+    for (const [key, value] of Object.entries(process.env)) {
+      const match = key.match(pattern);
+      if (match && value) {
+        indexes.add(Number(match[1]));
+      }
+    }
+
+    return [...indexes].sort((a, b) => a - b);
+  }
+
+  /**
+   * Carrega estágios de take-profit (TP1..TPn)
+   * TP1-TP4 têm valores padrão; níveis extras (TP5, TP6...) são lidos se definidos no .env
+   * TP_LEVELS fixa a quantidade exata de níveis (ex: TP_LEVELS=2 usa apenas TP1 e TP2)
    */
   private loadStages(): Stage[] {
-    return [
-      {
-        name: 'tp1',
-        multiple: this.getEnvNumber('TP1_MULTIPLE', 2),
-        sellPercent: this.getEnvNumber('TP1_SELL_PERCENT', 50)
-      },
-      {
-        name: 'tp2',
-        multiple: this.getEnvNumber('TP2_MULTIPLE', 5),
-        sellPercent: this.getEnvNumber('TP2_SELL_PERCENT', 50)
-      },
-      {
-        name: 'tp3',
-        multiple: this.getEnvNumber('TP3_MULTIPLE', 10),
-        sellPercent: this.getEnvNumber('TP3_SELL_PERCENT', 50)
-      },
-      {
-        name: 'tp4',
-        multiple: this.getEnvNumber('TP4_MULTIPLE', 20),
-        sellPercent: this.getEnvNumber('TP4_SELL_PERCENT', 100)
-      }
-    ];
-  }
-
-  /**
-   * Carrega níveis de stop-loss
+    const defaultMultiples: Record<number, number> = { 1: 2, 2: 5, 3: 10, 4: 20 };
+
+    const configured = this.getEnvIndexes('TP', 'MULTIPLE');
+    const levels = process.env.TP_LEVELS
+      ? this.getEnvNumber('TP_LEVELS')
+      : Math.max(4, ...configured);
+
+    const stages: Stage[] = [];
+    for (let i = 1; i <= levels; i++) {
+      stages.push({
+        name: `tp${i}`,
+        multiple: this.getEnvNumber(`TP${i}_MULTIPLE`, defaultMultiples[i]),
+        // Último nível vende tudo por padrão, os intermediários vendem metade
+        sellPercent: this.getEnvNumber(`TP${i}_SELL_PERCENT`, i === levels ? 100 : 50)
+      });
+    }
+
+    return stages;
+  }
+
+  /**
+   * Carrega níveis de stop-loss (SL1..SLn, todos opcionais)
    */
   private loadStopLosses(): StopLoss[] {
     // Carregar apenas stop-losses que estão configurados (não obrigatórios)
-    const stopLosses: StopLoss[] = [];
-
-    // SL1 - Stop-Loss 1 (padrão: não configurado)
-    const sl1Multiple = process.env.SL1_MULTIPLE;
-    if (sl1Multiple) {
-      stopLosses.push({
-        name: 'sl1',
-        multiple: this.getEnvNumber('SL1_MULTIPLE'),
-        sellPercent: this.getEnvNumber('SL1_SELL_PERCENT', 50)
+    const indexes = this.getEnvIndexes('SL', 'MULTIPLE');
+
+    return indexes.map(i => ({
+      name: `sl${i}`,
+      multiple: this.getEnvNumber(`SL${i}_MULTIPLE`),
+      // SL5 mantém o padrão histórico de saída total, os demais vendem metade
+      sellPercent: this.getEnvNumber(`SL${i}_SELL_PERCENT`, i === 5 ? 100 : 50),
+      // Saída forçada: vende também o moonbag
+      hardExit: this.getEnvBoolean(`SL${i}_HARD_EXIT`)
+    }));
+  }
+
+  /**
+   * Carrega níveis de trailing stop (TS1..TSn, todos opcionais)
+   * Cada nível é armado quando o maior múltiplo atinge TSn_ACTIVATION_MULTIPLE
+   * e vende TSn_SELL_PERCENT quando o preço cai TSn_DROP_PERCENT a partir do topo
+   */
+  private loadTrailingStops(): TrailingStop[] {
+    const trailingStops: TrailingStop[] = [];
+
+    for (const i of this.getEnvIndexes('TS', 'ACTIVATION_MULTIPLE')) {
+      trailingStops.push({
+        name: `ts${i}`,
+        activationMultiple: this.getEnvNumber(`TS${i}_ACTIVATION_MULTIPLE`),
+        dropPercent: this.getEnvNumber(`TS${i}_DROP_PERCENT`, 30),
+        sellPercent: this.getEnvNumber(`TS${i}_SELL_PERCENT`, 100)
       });
     }
 
-    // SL2 - Stop-Loss 2
-    const sl2Multiple = process.env.SL2_MULTIPLE;
-    if (sl2Multiple) {
-      stopLosses.push({
-        name: 'sl2',
-        multiple: this.getEnvNumber('SL2_MULTIPLE'),
-        sellPercent: this.getEnvNumber('SL2_SELL_PERCENT', 50)
+    return trailingStops;
+  }
+
+  /**
+   * Carrega regras de ratchet do stop (RS1..RSn, todas opcionais)
+   * Depois que o estágio RSn_AFTER_STAGE é vendido, vende RSn_SELL_PERCENT
+   * se o múltiplo voltar para RSn_MULTIPLE (ex: após TP1, stop em 1.0x)
+   */
+  private loadStopRatchets(): StopRatchet[] {
+    const stopRatchets: StopRatchet[] = [];
+
+    for (const i of this.getEnvIndexes('RS', 'AFTER_STAGE')) {
+      stopRatchets.push({
+        name: `rs${i}`,
+        afterStage: this.getEnv(`RS${i}_AFTER_STAGE`).toLowerCase(),
+        multiple: this.getEnvNumber(`RS${i}_MULTIPLE`, 1),
+        sellPercent: this.getEnvNumber(`RS${i}_SELL_PERCENT`, 100)
       });
     }
 
-    // SL3 - Stop-Loss 3
-    const sl3Multiple = process.env.SL3_MULTIPLE;
-    if (sl3Multiple) {
-      stopLosses.push({
-        name: 'sl3',
-        multiple: this.getEnvNumber('SL3_MULTIPLE'),
-        sellPercent: this.getEnvNumber('SL3_SELL_PERCENT', 50)
-      });
+    return stopRatchets;
+  }
+
+  /**
+   * Carrega regras de saída por tempo (TE1..TEn, todas opcionais)
+   * Após TEn_AFTER_MINUTES desde a criação da posição, vende TEn_SELL_PERCENT
+   * se o múltiplo estiver abaixo de TEn_MAX_MULTIPLE (sem valor = vende sempre)
+   */
+  private loadTimeExits(): TimeExit[] {
+    const timeExits: TimeExit[] = [];
+
+    for (const i of this.getEnvIndexes('TE', 'AFTER_MINUTES')) {
+      const timeExit: TimeExit = {
+        name: `te${i}`,
+        afterMinutes: this.getEnvNumber(`TE${i}_AFTER_MINUTES`),
+        sellPercent: this.getEnvNumber(`TE${i}_SELL_PERCENT`, 100)
+      };
+
+      if (process.env[`TE${i}_MAX_MULTIPLE`]) {
+        timeExit.maxMultiple = this.getEnvNumber(`TE${i}_MAX_MULTIPLE`);
+      }
+
+      timeExits.push(timeExit);
     }
 
-    // SL4 - Stop-Loss 4
-    const sl4Multiple = process.env.SL4_MULTIPLE;
-    if (sl4Multiple) {
-      stopLosses.push({
-        name: 'sl4',
-        multiple: this.getEnvNumber('SL4_MULTIPLE'),
-        sellPercent: this.getEnvNumber('SL4_SELL_PERCENT', 50)
+    return timeExits;
+  }
+
+  /**
+   * Carrega perfis de estratégia (PROFILE1..PROFILEn, todos opcionais)
+   * Cada perfil cobre uma faixa de score e tem seu próprio tamanho de compra,
+   * slippage e escadas de TP/SL. Campos omitidos herdam a configuração global.
+   * Escadas no formato "múltiplo:percentual" separados por vírgula (ex: "2:50,5:50,10:100")
+   */
+  private loadProfiles(): StrategyProfile[] {
+    const profiles: StrategyProfile[] = [];
+
+    for (const i of this.getEnvIndexes('PROFILE', 'NAME')) {
+      const prefix = `PROFILE${i}`;
+
+      profiles.push({
+        name: this.getEnv(`${prefix}_NAME`),
+        minScore: this.getEnvNumber(`${prefix}_MIN_SCORE`, 0),
+        maxScore: this.getEnvNumber(`${prefix}_MAX_SCORE`, Number.POSITIVE_INFINITY),
+        amountSol: this.getEnvNumber(`${prefix}_AMOUNT_SOL`, this._config.amountSol),
+        slippageBps: this.getEnvNumber(`${prefix}_SLIPPAGE_BPS`, this._config.slippageBps),
+        stages: process.env[`${prefix}_TAKE_PROFITS`]
+          ? this.parseLadder(`${prefix}_TAKE_PROFITS`, 'tp')
+          : this._stages.map(stage => ({ ...stage })),
+        stopLosses: process.env[`${prefix}_STOP_LOSSES`]
+          ? this.parseLadder(`${prefix}_STOP_LOSSES`, 'sl')
+          : this._stopLosses.map(sl => ({ ...sl })),
       });
     }
 
-    // SL5 - Stop-Loss 5
-    const sl5Multiple = process.env.SL5_MULTIPLE;
-    if (sl5Multiple) {
-      stopLosses.push({
-        name: 'sl5',
-        multiple: this.getEnvNumber('SL5_MULTIPLE'),
-        sellPercent: this.getEnvNumber('SL5_SELL_PERCENT', 100)
-      });
+    // Perfis vêm do .env e definem tamanho de compra: falhar cedo se estiverem inválidos
+    this.validateProfiles(profiles);
+
+    return profiles;
+  }
+
+  /**
+   * Converte uma escada "múltiplo:percentual,..." em níveis nomeados (tp1, tp2... / sl1, sl2...)
+   * O valor "none" resulta em uma escada vazia (ex: perfil sem stop-loss)
+   * Um sufixo ":hard" marca o nível como saída forçada (vende também o moonbag)
+   */
+  private parseLadder(key: string, namePrefix: string): StopLoss[] {
+    const value = this.getEnv(key).trim();
+    if (value.toLowerCase() === 'none') {
+      return [];
     }
 
-    return stopLosses;
+    return value.split(',').map((step, index) => {
+      const [multipleText, sellPercentText, flag] = step.split(':').map(part => part.trim());
+      const multiple = Number(multipleText);
+      const sellPercent = Number(sellPercentText);
+      if (!multipleText || isNaN(multiple) || !sellPercentText || isNaN(sellPercent)) {
+        throw new Error(`❌ Variável ${key} deve estar no formato "múltiplo:percentual,...", recebido: "${step}"`);
+      }
+
+      const level: StopLoss = { name: `${namePrefix}${index + 1}`, multiple, sellPercent };
+      if (flag?.toLowerCase() === 'hard') {
+        level.hardExit = true;
+      }
+      return level;
+    });
+  }
+
+  /**
+   * Cria uma cópia independente de um perfil (incluindo as escadas)
+   */
+  private cloneProfile(profile: StrategyProfile): StrategyProfile {
+    return {
+      ...profile,
+      stages: profile.stages.map(stage => ({ ...stage })),
+      stopLosses: profile.stopLosses.map(sl => ({ ...sl })),
+    };
   }
 
   /**
@@ -421,6 +890,15 @@ export class ConfigManager {
       case 'priceCheckSeconds':
       case 'buyDelayMs':
       case 'minScore':
+      case 'sizingMinSol':
+      case 'sizingMaxSol':
+      case 'solReserveSol':
+      case 'solReserveWarnSol':
+      case 'sellMaxImpactPercent':
+      case 'sellChunkIntervalMs':
+      case 'dcaIntervalMs':
+      case 'dcaExpireMs':
+      case 'dipEntryWindowMs':
         if (typeof value !== 'number' || value < 0) {
           throw new Error(`❌ ${key} deve ser um número maior ou igual a 0, recebido: ${value}`);
         }
@@ -433,22 +911,215 @@ export class ConfigManager {
       case 'baseUrl':
       case 'solMint':
       case 'stateFile':
+      case 'journalFile':
+      case 'paperWalletFile':
         if (typeof value !== 'string' || value.length === 0) {
           throw new Error(`❌ ${key} deve ser uma string não vazia, recebido: ${value}`);
         }
         break;
 
+      case 'rpcWsUrl':
+        if (typeof value !== 'string') {
+          throw new Error(`❌ ${key} deve ser uma string, recebido: ${value}`);
+        }
+        break;
+
+      case 'balanceRefreshMs':
+        if (typeof value !== 'number' || value < 5000) {
+          throw new Error(`❌ ${key} deve ser no mínimo 5000ms, recebido: ${value}`);
+        }
+        break;
+
       case 'jupApiKeys':
         if (!Array.isArray(value) || value.length === 0) {
           throw new Error(`❌ ${key} deve ser um array não vazio, recebido: ${value}`);
         }
         break;
 
+      case 'txCommitment':
+        if (value !== 'confirmed' && value !== 'finalized') {
+          throw new Error(`❌ ${key} deve ser confirmed ou finalized, recebido: ${value}`);
+        }
+        break;
+
+      case 'txConfirmTimeoutMs':
+        if (typeof value !== 'number' || value < 5000) {
+          throw new Error(`❌ ${key} deve ser no mínimo 5000ms, recebido: ${value}`);
+        }
+        break;
+
+      case 'txMaxResends':
+        if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+          throw new Error(`❌ ${key} deve ser um inteiro maior ou igual a 0, recebido: ${value}`);
+        }
+        break;
+
+      case 'buyPriorityFee':
+      case 'sellPriorityFee': {
+        const fee = value as PriorityFeeConfig;
+        if (!fee || !['jupiter', 'fixed', 'percentile'].includes(fee.mode)) {
+          throw new Error(`❌ ${key}.mode deve ser jupiter, fixed ou percentile, recebido: ${fee?.mode}`);
+        }
+        if (typeof fee.microLamports !== 'number' || fee.microLamports < 0) {
+          throw new Error(`❌ ${key}.microLamports deve ser maior ou igual a 0, recebido: ${fee.microLamports}`);
+        }
+        if (typeof fee.percentile !== 'number' || fee.percentile < 0 || fee.percentile > 100) {
+          throw new Error(`❌ ${key}.percentile deve estar entre 0 e 100, recebido: ${fee.percentile}`);
+        }
+        if (typeof fee.maxMicroLamports !== 'number' || fee.maxMicroLamports < 0) {
+          throw new Error(`❌ ${key}.maxMicroLamports deve ser maior ou igual a 0, recebido: ${fee.maxMicroLamports}`);
+        }
+        if (typeof fee.computeUnitLimit !== 'number' || !Number.isInteger(fee.computeUnitLimit) || fee.computeUnitLimit < 0 || fee.computeUnitLimit > 1400000) {
+          throw new Error(`❌ ${key}.computeUnitLimit deve ser um inteiro entre 0 e 1400000, recebido: ${fee.computeUnitLimit}`);
+        }
+        break;
+      }
+
+      case 'tpSellRetry':
+      case 'slSellRetry': {
+        const policy = value as SellRetryPolicy;
+        if (!policy || typeof policy.maxAttempts !== 'number' || !Number.isInteger(policy.maxAttempts) || policy.maxAttempts < 1) {
+          throw new Error(`❌ ${key}.maxAttempts deve ser um inteiro maior ou igual a 1, recebido: ${policy?.maxAttempts}`);
+        }
+        if (typeof policy.slippageStepBps !== 'number' || policy.slippageStepBps < 0) {
+          throw new Error(`❌ ${key}.slippageStepBps deve ser maior ou igual a 0, recebido: ${policy.slippageStepBps}`);
+        }
+        if (typeof policy.maxSlippageBps !== 'number' || policy.maxSlippageBps <= 0 || policy.maxSlippageBps > 10000) {
+          throw new Error(`❌ ${key}.maxSlippageBps deve estar entre 1 e 10000, recebido: ${policy.maxSlippageBps}`);
+        }
+        if (typeof policy.backoffMs !== 'number' || policy.backoffMs < 0) {
+          throw new Error(`❌ ${key}.backoffMs deve ser maior ou igual a 0, recebido: ${policy.backoffMs}`);
+        }
+        break;
+      }
+
+      case 'priceMaxJumpPercent':
+        if (typeof value !== 'number' || value < 0) {
+          throw new Error(`❌ ${key} deve ser um número maior ou igual a 0, recebido: ${value}`);
+        }
+        break;
+
+      case 'priceConfirmSource':
+        if (value !== 'read' && value !== 'quote') {
+          throw new Error(`❌ ${key} deve ser read ou quote, recebido: ${value}`);
+        }
+        break;
+
+      case 'priceMaxRejections':
+      case 'stopLossConfirmTicks':
+        if (typeof value !== 'number' || !Number.isInteger(value) || value < 1) {
+          throw new Error(`❌ ${key} deve ser um inteiro maior ou igual a 1, recebido: ${value}`);
+        }
+        break;
+
+      case 'priceProviders':
+        if (
+          !Array.isArray(value) || value.length === 0 || new Set(value).size !== value.length ||
+          value.some(p => !['jupiter', 'pool', 'quote'].includes(p))
+        ) {
+          throw new Error(`❌ ${key} deve listar fontes de preço (jupiter, pool, quote) sem repetições, recebido: ${value}`);
+        }
+        break;
+
+      case 'exitStrategyModules':
+        if (!Array.isArray(value) || value.some(m => typeof m !== 'string' || m.length === 0)) {
+          throw new Error(`❌ ${key} deve ser um array de caminhos de módulo, recebido: ${value}`);
+        }
+        break;
+
+      case 'safetyMaxRoundTripLossPercent':
+      case 'safetyMaxPriceImpactPercent':
+        if (typeof value !== 'number' || value <= 0 || value > 100) {
+          throw new Error(`❌ ${key} deve estar entre 0 e 100, recebido: ${value}`);
+        }
+        break;
+
+      case 'safetyMaxTransferFeeBps':
+        if (typeof value !== 'number' || value < 0 || value > 10000) {
+          throw new Error(`❌ ${key} deve estar entre 0 e 10000, recebido: ${value}`);
+        }
+        break;
+
+      case 'paperStartingSol':
+        if (typeof value !== 'number' || value <= 0) {
+          throw new Error(`❌ ${key} deve ser um número positivo, recebido: ${value}`);
+        }
+        break;
+
+      case 'paperSlippageBps':
+        if (typeof value !== 'number' || value < 0 || value >= 10000) {
+          throw new Error(`❌ ${key} deve estar entre 0 e 9999, recebido: ${value}`);
+        }
+        break;
+
+      case 'paperFeeSol':
+        if (typeof value !== 'number' || value < 0) {
+          throw new Error(`❌ ${key} deve ser um número não negativo, recebido: ${value}`);
+        }
+        break;
+
       case 'headless':
+      case 'swapFallbackEnabled':
+      case 'closeEmptyAccounts':
+      case 'balanceCacheEnabled':
+      case 'paperTrading':
+      case 'safetyCheckEnabled':
+      case 'safetyAllowFreezeAuthority':
+      case 'safetyAllowMintAuthority':
         if (typeof value !== 'boolean') {
           throw new Error(`❌ ${key} deve ser um boolean, recebido: ${value}`);
         }
         break;
+
+      case 'sizingMode':
+        if (value !== 'fixed' && value !== 'percent' && value !== 'score') {
+          throw new Error(`❌ ${key} deve ser fixed, percent ou score, recebido: ${value}`);
+        }
+        break;
+
+      case 'sizingPercent':
+        if (typeof value !== 'number' || value <= 0 || value > 100) {
+          throw new Error(`❌ ${key} deve estar entre 0 e 100, recebido: ${value}`);
+        }
+        break;
+
+      case 'dcaTranches':
+      case 'sellMaxChunks':
+        if (typeof value !== 'number' || !Number.isInteger(value) || value < 1) {
+          throw new Error(`❌ ${key} deve ser um inteiro maior ou igual a 1, recebido: ${value}`);
+        }
+        break;
+
+      case 'dcaMode':
+        if (value !== 'time' && value !== 'dip') {
+          throw new Error(`❌ ${key} deve ser time ou dip, recebido: ${value}`);
+        }
+        break;
+
+      case 'entryMode':
+        if (value !== 'delay' && value !== 'dip') {
+          throw new Error(`❌ ${key} deve ser delay ou dip, recebido: ${value}`);
+        }
+        break;
+
+      case 'dcaDipPercent':
+      case 'dipEntryPercent':
+        if (typeof value !== 'number' || value <= 0 || value >= 100) {
+          throw new Error(`❌ ${key} deve estar entre 0 e 100, recebido: ${value}`);
+        }
+        break;
+
+      case 'moonbagPercent':
+        if (typeof value !== 'number' || value < 0 || value >= 100) {
+          throw new Error(`❌ ${key} deve estar entre 0 e 100 (0 = desativado), recebido: ${value}`);
+        }
+        break;
+
+      case 'sizingScoreReference':
+        if (typeof value !== 'number' || value <= 0) {
+          throw new Error(`❌ ${key} deve ser um número maior que 0, recebido: ${value}`);
+        }
+        break;
     }
   }
 
@@ -517,10 +1188,166 @@ export class ConfigManager {
     }
   }
 
+  /**
+   * Valida níveis de trailing stop
+   */
+  private validateTrailingStops(trailingStops: TrailingStop[]): void {
+    if (!Array.isArray(trailingStops)) {
+      throw new Error('❌ Trailing stops devem ser um array');
+    }
+
+    // Trailing stops são opcionais, então array vazio é permitido
+    const names = new Set<string>();
+
+    for (let i = 0; i < trailingStops.length; i++) {
+      const ts = trailingStops[i]!;
+
+      if (!ts.name || typeof ts.name !== 'string') {
+        throw new Error(`❌ Trailing Stop ${i}: nome deve ser uma string não vazia`);
+      }
+
+      if (names.has(ts.name)) {
+        throw new Error(`❌ Trailing Stop ${i}: nome "${ts.name}" duplicado`);
+      }
+      names.add(ts.name);
+
+      if (typeof ts.activationMultiple !== 'number' || ts.activationMultiple <= 0) {
+        throw new Error(`❌ Trailing Stop ${i}: múltiplo de ativação deve ser > 0, recebido: ${ts.activationMultiple}`);
+      }
+
+      if (typeof ts.dropPercent !== 'number' || ts.dropPercent <= 0 || ts.dropPercent >= 100) {
+        throw new Error(`❌ Trailing Stop ${i}: dropPercent deve estar entre 0 e 100, recebido: ${ts.dropPercent}`);
+      }
+
+      if (typeof ts.sellPercent !== 'number' || ts.sellPercent <= 0 || ts.sellPercent > 100) {
+        throw new Error(`❌ Trailing Stop ${i}: sellPercent deve estar entre 1-100, recebido: ${ts.sellPercent}`);
+      }
+    }
+  }
+
+  /**
+   * Valida regras de ratchet do stop
+   */
+  private validateStopRatchets(stopRatchets: StopRatchet[]): void {
+    if (!Array.isArray(stopRatchets)) {
+      throw new Error('❌ Ratchets de stop devem ser um array');
+    }
+
+    // Ratchets são opcionais, então array vazio é permitido
+    const stageNames = new Set(this._stages.map(stage => stage.name));
+    const names = new Set<string>();
+
+    for (let i = 0; i < stopRatchets.length; i++) {
+      const rs = stopRatchets[i]!;
+
+      if (!rs.name || typeof rs.name !== 'string') {
+        throw new Error(`❌ Ratchet ${i}: nome deve ser uma string não vazia`);
+      }
+
+      if (names.has(rs.name)) {
+        throw new Error(`❌ Ratchet ${i}: nome "${rs.name}" duplicado`);
+      }
+      names.add(rs.name);
+
+      if (!stageNames.has(rs.afterStage)) {
+        throw new Error(`❌ Ratchet ${i}: estágio "${rs.afterStage}" não existe nos take-profits (${[...stageNames].join(', ')})`);
+      }
+
+      if (typeof rs.multiple !== 'number' || rs.multiple <= 0) {
+        throw new Error(`❌ Ratchet ${i}: múltiplo deve ser > 0, recebido: ${rs.multiple}`);
+      }
+
+      if (typeof rs.sellPercent !== 'number' || rs.sellPercent <= 0 || rs.sellPercent > 100) {
+        throw new Error(`❌ Ratchet ${i}: sellPercent deve estar entre 1-100, recebido: ${rs.sellPercent}`);
+      }
+    }
+  }
+
+  /**
+   * Valida regras de saída por tempo
+   */
+  private validateTimeExits(timeExits: TimeExit[]): void {
+    if (!Array.isArray(timeExits)) {
+      throw new Error('❌ Saídas por tempo devem ser um array');
+    }
+
+    // Saídas por tempo são opcionais, então array vazio é permitido
+    const names = new Set<string>();
+
+    for (let i = 0; i < timeExits.length; i++) {
+      const te = timeExits[i]!;
+
+      if (!te.name || typeof te.name !== 'string') {
+        throw new Error(`❌ Saída por tempo ${i}: nome deve ser uma string não vazia`);
+      }
+
+      if (names.has(te.name)) {
+        throw new Error(`❌ Saída por tempo ${i}: nome "${te.name}" duplicado`);
+      }
+      names.add(te.name);
+
+      if (typeof te.afterMinutes !== 'number' || te.afterMinutes <= 0) {
+        throw new Error(`❌ Saída por tempo ${i}: afterMinutes deve ser > 0, recebido: ${te.afterMinutes}`);
+      }
+
+      if (te.maxMultiple !== undefined && (typeof te.maxMultiple !== 'number' || te.maxMultiple <= 0)) {
+        throw new Error(`❌ Saída por tempo ${i}: maxMultiple deve ser > 0, recebido: ${te.maxMultiple}`);
+      }
+
+      if (typeof te.sellPercent !== 'number' || te.sellPercent <= 0 || te.sellPercent > 100) {
+        throw new Error(`❌ Saída por tempo ${i}: sellPercent deve estar entre 1-100, recebido: ${te.sellPercent}`);
+      }
+    }
+  }
+
+  /**
+   * Valida perfis de estratégia
+   */
+  private validateProfiles(profiles: StrategyProfile[]): void {
+    if (!Array.isArray(profiles)) {
+      throw new Error('❌ Perfis devem ser um array');
+    }
+
+    // Perfis são opcionais, então array vazio é permitido (usa o perfil padrão)
+    const names = new Set<string>();
+
+    for (let i = 0; i < profiles.length; i++) {
+      const profile = profiles[i]!;
+
+      if (!profile.name || typeof profile.name !== 'string') {
+        throw new Error(`❌ Perfil ${i}: nome deve ser uma string não vazia`);
+      }
+
+      if (profile.name === DEFAULT_PROFILE_NAME) {
+        throw new Error(`❌ Perfil ${i}: nome "${DEFAULT_PROFILE_NAME}" é reservado para a configuração global`);
+      }
+
+      if (names.has(profile.name)) {
+        throw new Error(`❌ Perfil ${i}: nome "${profile.name}" duplicado`);
+      }
+      names.add(profile.name);
+
+      if (typeof profile.minScore !== 'number' || typeof profile.maxScore !== 'number' || profile.minScore > profile.maxScore) {
+        throw new Error(`❌ Perfil ${profile.name}: faixa de score inválida (${profile.minScore}-${profile.maxScore})`);
+      }
+
+      if (typeof profile.amountSol !== 'number' || profile.amountSol <= 0) {
+        throw new Error(`❌ Perfil ${profile.name}: amountSol deve ser > 0, recebido: ${profile.amountSol}`);
+      }
+
+      if (typeof profile.slippageBps !== 'number' || profile.slippageBps < 0) {
+        throw new Error(`❌ Perfil ${profile.name}: slippageBps deve ser >= 0, recebido: ${profile.slippageBps}`);
+      }
+
+      this.validateStages(profile.stages);
+      this.validateStopLosses(profile.stopLosses);
+    }
+  }
+
   /**
    * Notifica todos os callbacks sobre uma mudança
    */
-  private notifyChange(key: keyof Config | 'stages' | 'stopLosses', oldValue: any, newValue: any): void {
+  private notifyChange(key: ConfigChangeKey, oldValue: any, newValue: any): void {
     for (const callback of this._changeCallbacks) {
       try {
         callback(key, oldValue, newValue);
@@ -539,11 +1366,60 @@ export class ConfigManager {
     const hasChanges = this.hasRuntimeChanges();
 
     console.log('🔥 Configuração carregada' + (hasChanges ? ' (com mudanças em runtime)' : ''));
+    if (this._config.paperTrading) {
+      console.log('📝 PAPER TRADING:', `carteira virtual (${this._config.paperWalletFile}), saldo inicial ${this._config.paperStartingSol} SOL, ` +
+        `slippage ${this._config.paperSlippageBps} bps, taxa ${this._config.paperFeeSol} SOL - posições em ${this._config.stateFile}`);
+    }
     console.log('🎯 Compra por token:', this._config.amountSol, 'SOL');
+    console.log('🏦 Reserva de SOL:', `${this._config.solReserveSol} SOL (alerta a ${this._config.solReserveWarnSol} SOL da reserva)`);
+    console.log('📏 Dimensionamento:', this.describeSizing());
+    console.log('🌙 Moonbag:', this._config.moonbagPercent > 0 ? `${this._config.moonbagPercent}% da posição` : 'Desativado');
+    console.log('✅ Confirmação:', `${this._config.txCommitment} (timeout ${this._config.txConfirmTimeoutMs}ms, até ${this._config.txMaxResends} reenvio(s) se expirar)`);
+    console.log('♻️ Fechar token accounts vazias:', this._config.closeEmptyAccounts ? 'Ativado (recupera o rent ao encerrar posições)' : 'Desativado');
+    console.log('💱 Fontes de preço:', this._config.priceProviders.join(' → '));
+    console.log('🚫 Validação de ticks:', this._config.priceMaxJumpPercent > 0
+      ? `saltos acima de ${this._config.priceMaxJumpPercent}% exigem confirmação (${this._config.priceConfirmSource === 'quote' ? 'cotação' : 'segunda leitura'}), ` +
+        `aceitos após ${this._config.priceMaxRejections} rejeição(ões) seguidas`
+      : 'Desativada');
+    console.log('🛡️ Confirmação do stop-loss:', this._config.stopLossConfirmTicks > 1
+      ? `${this._config.stopLossConfirmTicks} ticks consecutivos abaixo do nível`
+      : 'Imediata (1 tick)');
+    console.log('🗃️ Cache de saldos:', this._config.balanceCacheEnabled
+      ? `Ativado (websocket${this._config.rpcWsUrl ? ` ${this._config.rpcWsUrl}` : ''}, releitura a cada ${this._config.balanceRefreshMs}ms)`
+      : 'Desativado (saldos lidos via RPC a cada consulta)');
+    console.log('🔀 Rota de fallback (quote + swap):', this._config.swapFallbackEnabled ? 'Ativada' : 'Desativada');
+    console.log('⛽ Priority fee compra:', this.describePriorityFee(this._config.buyPriorityFee));
+    console.log('⛽ Priority fee venda:', this.describePriorityFee(this._config.sellPriorityFee));
+    console.log('🧪 Checagem de segurança:', this._config.safetyCheckEnabled
+      ? `perda ida/volta ≤ ${this._config.safetyMaxRoundTripLossPercent}%, impacto ≤ ${this._config.safetyMaxPriceImpactPercent}%, ` +
+        `freeze ${this._config.safetyAllowFreezeAuthority ? 'permitido' : 'bloqueado'}, mint ${this._config.safetyAllowMintAuthority ? 'permitido' : 'bloqueado'}, ` +
+        `transfer fee ≤ ${this._config.safetyMaxTransferFeeBps} bps`
+      : 'Desativada');
+    const describeRetry = (policy: SellRetryPolicy) =>
+      `${policy.maxAttempts} tentativa(s), +${policy.slippageStepBps} bps até ${policy.maxSlippageBps} bps, backoff ${policy.backoffMs}ms`;
+    console.log('🔁 Retentativas TP:', describeRetry(this._config.tpSellRetry));
+    console.log('🔁 Retentativas SL:', describeRetry(this._config.slSellRetry));
+    console.log('🧱 Venda em partes:', this._config.sellMaxImpactPercent > 0
+      ? `TPs com impacto > ${this._config.sellMaxImpactPercent}% em até ${this._config.sellMaxChunks} partes a cada ${this._config.sellChunkIntervalMs}ms`
+      : 'Desativada');
+    if (this._config.exitStrategyModules.length > 0) {
+      console.log('🧩 Estratégias de saída customizadas:', this._config.exitStrategyModules.join(', '));
+    }
+    if (this._config.dcaTranches > 1) {
+      const spacing = this._config.dcaMode === 'time'
+        ? `a cada ${this._config.dcaIntervalMs}ms`
+        : `a cada -${this._config.dcaDipPercent}% abaixo da 1ª compra`;
+      const expire = this._config.dcaExpireMs > 0 ? `, expira em ${this._config.dcaExpireMs}ms` : '';
+      console.log(`🧩 Entrada em parcelas: ${this._config.dcaTranches}x ${spacing}${expire}`);
+    }
     console.log('⚙️ Slippage:', this._config.slippageBps, 'bps');
     console.log('⏱️ Leitura do site:', this._config.checkIntervalMs, 'ms');
     console.log('📉 Check de preço:', this._config.priceCheckSeconds, 's');
-    console.log('⏳ Delay na compra:', this._config.buyDelayMs === 0 ? 'Imediato' : `${this._config.buyDelayMs}ms`);
+    if (this._config.entryMode === 'dip') {
+      console.log(`📉 Entrada no pullback: compra após -${this._config.dipEntryPercent}% do topo em até ${this._config.dipEntryWindowMs}ms`);
+    } else {
+      console.log('⏳ Delay na compra:', this._config.buyDelayMs === 0 ? 'Imediato' : `${this._config.buyDelayMs}ms`);
+    }
     console.log('🎯 Score mínimo:', this._config.minScore > 0 ? this._config.minScore : 'Sem filtro');
     console.log('🧠 Headless:', this._config.headless);
     console.log(`🔑 API Keys Jupiter: ${this._config.jupApiKeys.length} key${this._config.jupApiKeys.length > 1 ? 's' : ''} (rotação ${this._config.jupApiKeys.length > 1 ? 'ativada' : 'desativada'})`);
@@ -560,14 +1436,72 @@ export class ConfigManager {
     if (this._stopLosses.length > 0) {
       console.log('\n🛡️ Estratégia de Stop-Loss:');
       this._stopLosses.forEach(sl => {
-        console.log(`   ${sl.name.toUpperCase()}: ${sl.multiple}x → vende ${sl.sellPercent}%`);
+        const hardExit = sl.hardExit ? ' (saída forçada, inclui moonbag)' : '';
+        console.log(`   ${sl.name.toUpperCase()}: ${sl.multiple}x → vende ${sl.sellPercent}%${hardExit}`);
       });
     } else {
       console.log('\n🛡️ Stop-Loss: Desativado');
     }
+
+    if (this._trailingStops.length > 0) {
+      console.log('\n📐 Estratégia de Trailing Stop:');
+      this._trailingStops.forEach(ts => {
+        console.log(`   ${ts.name.toUpperCase()}: ativa em ${ts.activationMultiple}x → vende ${ts.sellPercent}% se cair ${ts.dropPercent}% do topo`);
+      });
+    } else {
+      console.log('\n📐 Trailing Stop: Desativado');
+    }
+
+    if (this._stopRatchets.length > 0) {
+      console.log('\n🪜 Ratchet de Stop:');
+      this._stopRatchets.forEach(rs => {
+        console.log(`   ${rs.name.toUpperCase()}: após ${rs.afterStage.toUpperCase()} → stop em ${rs.multiple}x, vende ${rs.sellPercent}%`);
+      });
+    }
+
+    if (this._profiles.length > 0) {
+      console.log('\n🎚️ Perfis por Score:');
+      this._profiles.forEach(profile => {
+        const maxScore = Number.isFinite(profile.maxScore) ? profile.maxScore : '∞';
+        const tps = profile.stages.map(stage => `${stage.multiple}x/${stage.sellPercent}%`).join(' ');
+        const sls = profile.stopLosses.length > 0
+          ? profile.stopLosses.map(sl => `${sl.multiple}x/${sl.sellPercent}%`).join(' ')
+          : 'sem SL';
+        console.log(`   ${profile.name} [${profile.minScore}-${maxScore}]: ${profile.amountSol} SOL, ${profile.slippageBps} bps | TP ${tps} | SL ${sls}`);
+      });
+      console.log(`   Demais scores → perfil "${DEFAULT_PROFILE_NAME}" (configuração global)`);
+    }
+
+    if (this._timeExits.length > 0) {
+      console.log('\n⌛ Saídas por Tempo:');
+      this._timeExits.forEach(te => {
+        const condition = te.maxMultiple !== undefined ? ` se abaixo de ${te.maxMultiple}x` : '';
+        console.log(`   ${te.name.toUpperCase()}: após ${te.afterMinutes}min${condition} → vende ${te.sellPercent}%`);
+      });
+    }
     console.log('');
   }
 
+  /**
+   * Descreve o modo de dimensionamento atual (para logs)
+   */
+  private describeSizing(): string {
+    const { sizingMode, sizingPercent, sizingScoreReference, sizingMinSol, sizingMaxSol } = this._config;
+
+    let description = 'Fixo (amountSol do perfil)';
+    if (sizingMode === 'percent') {
+      description = `${sizingPercent}% do saldo da wallet`;
+    } else if (sizingMode === 'score') {
+      description = `Ponderado pelo score (score ${sizingScoreReference} = amountSol do perfil)`;
+    }
+
+    const limits: string[] = [];
+    if (sizingMinSol > 0) limits.push(`mín ${sizingMinSol} SOL`);
+    if (sizingMaxSol > 0) limits.push(`máx ${sizingMaxSol} SOL`);
+
+    return limits.length > 0 ? `${description} [${limits.join(', ')}]` : description;
+  }
+
   /**
    * Verifica se há mudanças em relação aos valores padrão
    */
@@ -579,7 +1513,11 @@ export class ConfigManager {
     }
     return (
       JSON.stringify(this._stages) !== JSON.stringify(this._defaultStages) ||
-      JSON.stringify(this._stopLosses) !== JSON.stringify(this._defaultStopLosses)
+      JSON.stringify(this._stopLosses) !== JSON.stringify(this._defaultStopLosses) ||
+      JSON.stringify(this._trailingStops) !== JSON.stringify(this._defaultTrailingStops) ||
+      JSON.stringify(this._stopRatchets) !== JSON.stringify(this._defaultStopRatchets) ||
+      JSON.stringify(this._timeExits) !== JSON.stringify(this._defaultTimeExits) ||
+      JSON.stringify(this._profiles) !== JSON.stringify(this._defaultProfiles)
     );
   }
 }
@@ -4,8 +4,9 @@ import { scraperService } from './services/scraper.service';
 import { tradingService } from './services/trading.service';
 import { stateService } from './services/state.service';
 import { solanaService } from './services/solana.service';
-import { jupiterService } from './services/jupiter.service';
 import { buySchedulerService } from './services/buy-scheduler.service';
+import { exitStrategyRegistry } from './strategies';
+import { priceProviderRegistry } from './pricing';
 import { logger } from './utils/logger';
 import { statusMonitor } from './utils/status-monitor';
 
@@ -21,7 +22,7 @@ async function checkPausedPositions(): Promise<void> {
 
       if (balance.amount > 0n) {
         // Reativar posição - obter preço atual como novo entry
-        const currentPrice = await jupiterService.getUsdPrice(mint);
+        const currentPrice = (await priceProviderRegistry.getPrice(mint))?.price;
         if (currentPrice) {
           stateService.reactivatePosition(mint, currentPrice);
           logger.success(`${position.ticker} reativado - novo entry: $${currentPrice.toFixed(6)}`);
@@ -41,6 +42,18 @@ async function checkPausedPositions(): Promise<void> {
 async function main(): Promise<void> {
   logConfig();
 
+  // Registrar estratégias de saída customizadas antes de retomar os monitores
+  await exitStrategyRegistry.loadModules();
+
+  // Cache de saldos da wallet (assinaturas websocket) antes de qualquer leitura de saldo
+  await solanaService.startBalanceCache();
+
+  // Reconciliar trades interrompidos (journal) antes de retomar as posições
+  await tradingService.reconcileJournal();
+
+  // Saldo inicial da wallet (alerta de reserva de SOL no status)
+  await tradingService.refreshWalletBalance();
+
   console.log('🔐 Inicializando scraper...');
   await scraperService.initialize();
 
@@ -94,7 +107,7 @@ async function main(): Promise<void> {
         logger.success(`NOVO: ${token.ticker} (score ${token.score}) ✅`);
 
         // Agendar compra com delay configurável
-        buySchedulerService.scheduleTokenBuy(mint, token.ticker);
+        buySchedulerService.scheduleTokenBuy(mint, token.ticker, tokenScore);
       }
     } catch (error) {
       logger.error('Erro no loop principal', error);
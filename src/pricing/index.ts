@@ -0,0 +1,138 @@
+import type { PriceProvider, PriceTick } from '../types';
+import { config, configManager } from '../config';
+import { jupiterService } from '../services/jupiter.service';
+import { logger } from '../utils/logger';
+import { JupiterPriceProvider } from './jupiter.provider';
+import { PoolReservePriceProvider } from './pool-reserve.provider';
+import { QuotePriceProvider } from './quote.provider';
+
+export { JupiterPriceProvider, PoolReservePriceProvider, QuotePriceProvider };
+
+// Validade do preço do SOL usado para converter as fontes cotadas em SOL
+const SOL_PRICE_TTL_MS = 30000;
+
+// Preço do SOL antigo ainda aceito se a API de preço falhar (o SOL varia pouco perto de um memecoin)
+const SOL_PRICE_STALE_MS = 300000;
+
+/**
+ * Registro das fontes de preço com failover automático
+ * As fontes embutidas são consultadas na ordem de PRICE_PROVIDERS (lida a cada ciclo para refletir
+ * mudanças em runtime) e depois as registradas com register(); cada mint sem preço em uma fonte
+ * passa para a seguinte e o preço devolvido leva o nome da fonte que o forneceu.
+ */
+class PriceProviderRegistry {
+  private builtIn = new Map<string, PriceProvider>();
+  private custom: PriceProvider[] = [];
+  private solUsd: { price: number; at: number } | null = null;
+
+  constructor() {
+    const getSolUsd = () => this.getSolUsdPrice();
+    for (const provider of [
+      new JupiterPriceProvider(),
+      new PoolReservePriceProvider(getSolUsd),
+      new QuotePriceProvider(getSolUsd),
+    ]) {
+      this.builtIn.set(provider.name, provider);
+    }
+  }
+
+  /**
+   * Registra uma fonte de preço extra (consultada depois das embutidas; nomes devem ser únicos)
+   */
+  register(provider: PriceProvider): void {
+    if (!provider || typeof provider.name !== 'string' || typeof provider.getPrices !== 'function') {
+      throw new Error('❌ Fonte de preço inválida: precisa de name e getPrices()');
+    }
+    if (this.builtIn.has(provider.name) || this.custom.some(p => p.name === provider.name)) {
+      throw new Error(`❌ Fonte de preço "${provider.name}" já registrada`);
+    }
+    this.custom.push(provider);
+  }
+
+  unregister(name: string): boolean {
+    const before = this.custom.length;
+    this.custom = this.custom.filter(p => p.name !== name);
+    return this.custom.length < before;
+  }
+
+  /**
+   * Fontes ativas em ordem de prioridade
+   */
+  list(): PriceProvider[] {
+    const ordered = configManager.config.priceProviders
+      .map(name => this.builtIn.get(name))
+      .filter((provider): provider is PriceProvider => !!provider);
+    return [...ordered, ...this.custom];
+  }
+
+  /**
+   * Preço dos mints pela primeira fonte que conseguir precificar cada um
+   * @returns preço e fonte por mint (mints sem preço em nenhuma fonte ficam fora do mapa)
+   */
+  async getPrices(mints: string[]): Promise<Map<string, PriceTick>> {
+    const ticks = new Map<string, PriceTick>();
+    let missing = [...mints];
+
+    for (const provider of this.list()) {
+      if (missing.length === 0) break;
+
+      try {
+        const prices = await provider.getPrices(missing);
+        for (const mint of missing) {
+          const price = prices.get(mint);
+          if (price !== undefined && Number.isFinite(price) && price > 0) {
+            ticks.set(mint, { price, source: provider.name });
+          }
+        }
+      } catch (error) {
+        logger.warn(`💱 Fonte de preço "${provider.name}" falhou: ${error instanceof Error ? error.message : error}`);
+      }
+
+      missing = missing.filter(mint => !ticks.has(mint));
+    }
+
+    return ticks;
+  }
+
+  async getPrice(mint: string): Promise<PriceTick | null> {
+    const ticks = await this.getPrices([mint]);
+    return ticks.get(mint) ?? null;
+  }
+
+  /**
+   * Preço de uma fonte específica, sem failover (ex: confirmação de tick pela cotação)
+   * Vale mesmo para fontes embutidas fora de PRICE_PROVIDERS
+   */
+  async getPriceFrom(name: string, mint: string): Promise<PriceTick | null> {
+    const provider = this.builtIn.get(name) ?? this.custom.find(p => p.name === name);
+    if (!provider) return null;
+
+    try {
+      const price = (await provider.getPrices([mint])).get(mint);
+      return price !== undefined && Number.isFinite(price) && price > 0 ? { price, source: provider.name } : null;
+    } catch (error) {
+      logger.warn(`💱 Fonte de preço "${name}" falhou: ${error instanceof Error ? error.message : error}`);
+      return null;
+    }
+  }
+
+  /**
+   * Preço do SOL em USD (cache curto) para as fontes que cotam em SOL
+   */
+  private async getSolUsdPrice(): Promise<number | null> {
+    const now = Date.now();
+    if (this.solUsd && now - this.solUsd.at < SOL_PRICE_TTL_MS) {
+      return this.solUsd.price;
+    }
+
+    const price = await jupiterService.getUsdPrice(config.solMint, false);
+    if (price) {
+      this.solUsd = { price, at: now };
+      return price;
+    }
+
+    return this.solUsd && now - this.solUsd.at < SOL_PRICE_STALE_MS ? this.solUsd.price : null;
+  }
+}
+
+export const priceProviderRegistry = new PriceProviderRegistry();
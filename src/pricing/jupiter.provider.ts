@@ -0,0 +1,18 @@
+import type { PriceProvider } from '../types';
+import { jupiterService } from '../services/jupiter.service';
+
+/**
+ * Preço da API de preço V3 do Jupiter (todos os mints em uma requisição)
+ * Tokens recém-lançados podem ainda não ter entrada na API: ficam para a próxima fonte
+ */
+export class JupiterPriceProvider implements PriceProvider {
+  public readonly name = 'jupiter';
+
+  async getPrices(mints: string[]): Promise<Map<string, number>> {
+    const prices = await jupiterService.getUsdPrices(mints, false);
+    if (!prices) {
+      throw new Error('API de preço V3 indisponível');
+    }
+    return prices;
+  }
+}
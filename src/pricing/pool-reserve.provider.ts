@@ -0,0 +1,61 @@
+import { PublicKey } from '@solana/web3.js';
+import type { PriceProvider } from '../types';
+import { solanaService } from '../services/solana.service';
+
+// Programa do pump.fun (dono das contas de bonding curve)
+const PUMP_PROGRAM_ID = new PublicKey('6EF8rrecthR5Dkzon8Nwu78hRvfCKubJ14M5uBEwF6P');
+
+// Tokens do pump.fun sempre têm 6 decimais
+const PUMP_TOKEN_DECIMALS = 6;
+
+// Layout da bonding curve: discriminador (8) + reservas virtuais de token e SOL (u64) + ... + complete (bool)
+const VIRTUAL_TOKEN_RESERVES_OFFSET = 8;
+const VIRTUAL_SOL_RESERVES_OFFSET = 16;
+const COMPLETE_OFFSET = 48;
+
+/**
+ * Preço lido on-chain das reservas da bonding curve do pump.fun (uma leitura RPC para todos os mints)
+ * preço em SOL = reservas virtuais de SOL / reservas virtuais de token, convertido para USD pelo SOL.
+ * Curvas completas (token migrado para AMM) ou inexistentes ficam para a próxima fonte.
+ */
+export class PoolReservePriceProvider implements PriceProvider {
+  public readonly name = 'pool';
+
+  constructor(private readonly getSolUsd: () => Promise<number | null>) {}
+
+  async getPrices(mints: string[]): Promise<Map<string, number>> {
+    const prices = new Map<string, number>();
+
+    const curves = mints.map(mint => PublicKey.findProgramAddressSync(
+      [Buffer.from('bonding-curve'), new PublicKey(mint).toBuffer()],
+      PUMP_PROGRAM_ID
+    )[0]);
+    const accounts = await solanaService.connection.getMultipleAccountsInfo(curves);
+
+    const pricesSol = new Map<string, number>();
+    accounts.forEach((account, i) => {
+      if (!account || !account.owner.equals(PUMP_PROGRAM_ID) || account.data.length <= COMPLETE_OFFSET) return;
+      if (account.data[COMPLETE_OFFSET] === 1) return;
+
+      const virtualTokens = account.data.readBigUInt64LE(VIRTUAL_TOKEN_RESERVES_OFFSET);
+      const virtualSol = account.data.readBigUInt64LE(VIRTUAL_SOL_RESERVES_OFFSET);
+      if (virtualTokens === 0n || virtualSol === 0n) return;
+
+      const tokens = Number(virtualTokens) / Math.pow(10, PUMP_TOKEN_DECIMALS);
+      pricesSol.set(mints[i]!, Number(virtualSol) / 1e9 / tokens);
+    });
+
+    // Preço do SOL só é buscado se alguma curva foi lida
+    if (pricesSol.size === 0) return prices;
+
+    const solUsd = await this.getSolUsd();
+    if (!solUsd) {
+      throw new Error('preço do SOL indisponível para converter as reservas');
+    }
+
+    for (const [mint, priceSol] of pricesSol) {
+      prices.set(mint, priceSol * solUsd);
+    }
+    return prices;
+  }
+}
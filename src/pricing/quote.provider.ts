@@ -0,0 +1,84 @@
+import type { PriceProvider } from '../types';
+import { config } from '../config';
+import { jupiterService } from '../services/jupiter.service';
+import { solanaService } from '../services/solana.service';
+
+// Valor da primeira cotação SOL → token (define o tamanho das cotações reversas seguintes)
+const PROBE_LAMPORTS = 10_000_000n; // 0.01 SOL
+
+/**
+ * Preço derivado de uma cotação pequena do Jupiter (rota de swap, sem depender da API de preço)
+ * Na primeira consulta de um mint cota 0.01 SOL → token; a partir daí cota a quantidade recebida
+ * de volta token → SOL (cotação reversa, o lado que importa para as saídas).
+ * Usa o rate limiter do Jupiter: uma cotação por mint, então deve ficar por último na prioridade.
+ */
+export class QuotePriceProvider implements PriceProvider {
+  public readonly name = 'quote';
+  private probeAmounts = new Map<string, bigint>();
+  private decimals = new Map<string, number>();
+
+  constructor(private readonly getSolUsd: () => Promise<number | null>) {}
+
+  async getPrices(mints: string[]): Promise<Map<string, number>> {
+    const prices = new Map<string, number>();
+    if (mints.length === 0) return prices;
+
+    const solUsd = await this.getSolUsd();
+    if (!solUsd) {
+      throw new Error('preço do SOL indisponível para converter as cotações');
+    }
+
+    for (const mint of mints) {
+      const priceSol = await this.quotePriceSol(mint);
+      if (priceSol) {
+        prices.set(mint, priceSol * solUsd);
+      }
+    }
+    return prices;
+  }
+
+  /**
+   * Preço em SOL por token (null se não houve rota ou os decimais não puderam ser lidos)
+   */
+  private async quotePriceSol(mint: string): Promise<number | null> {
+    const decimals = await this.getDecimals(mint);
+    if (decimals === null) return null;
+
+    const tokenUnit = Math.pow(10, decimals);
+    const probe = this.probeAmounts.get(mint);
+
+    if (!probe) {
+      const quote = await jupiterService.getQuote({
+        inputMint: config.solMint,
+        outputMint: mint,
+        amountInt: PROBE_LAMPORTS.toString(),
+      });
+      const tokensOut = quote ? BigInt(quote.outAmount) : 0n;
+      if (tokensOut <= 0n) return null;
+
+      this.probeAmounts.set(mint, tokensOut);
+      return (Number(PROBE_LAMPORTS) / 1e9) / (Number(tokensOut) / tokenUnit);
+    }
+
+    const quote = await jupiterService.getQuote({
+      inputMint: mint,
+      outputMint: config.solMint,
+      amountInt: probe.toString(),
+    });
+    const lamportsOut = quote ? BigInt(quote.outAmount) : 0n;
+    if (lamportsOut <= 0n) return null;
+
+    return (Number(lamportsOut) / 1e9) / (Number(probe) / tokenUnit);
+  }
+
+  private async getDecimals(mint: string): Promise<number | null> {
+    const cached = this.decimals.get(mint);
+    if (cached !== undefined) return cached;
+
+    const decimals = await solanaService.getMintDecimals(mint);
+    if (decimals !== null) {
+      this.decimals.set(mint, decimals);
+    }
+    return decimals;
+  }
+}
@@ -0,0 +1,96 @@
+import type { PriceHistory, PriceTick } from '../types';
+import { configManager } from '../config';
+import { logger } from '../utils/logger';
+import { priceProviderRegistry } from './index';
+
+// Ticks recentes do priceHistory usados como referência (mediana)
+const REFERENCE_TICKS = 5;
+
+/**
+ * Validação de ticks antes de avaliar TP/SL
+ * Um tick que salta mais de PRICE_MAX_JUMP_PERCENT em relação à mediana dos preços recentes
+ * só é aceito se uma segunda leitura (nova consulta às fontes ou cotação, PRICE_CONFIRM_SOURCE)
+ * também estiver além do limite na mesma direção; caso contrário é descartado e registrado no log.
+ * Ticks rejeitados não entram no priceHistory, então a referência segue sendo o preço bom.
+ * Saídas para não travar o monitor num crash real (pool drenado, sem rota de cotação):
+ * - cotação sem preço → segunda leitura pelas fontes; nenhuma fonte com preço → tick aceito
+ * - PRICE_MAX_REJECTIONS rejeições seguidas na mesma direção → tick aceito
+ */
+class TickValidator {
+  // Rejeições seguidas por mint (direção do salto: 1 = alta, -1 = queda)
+  private rejections = new Map<string, { direction: number; count: number }>();
+
+  /**
+   * @returns true se o tick pode ser usado pelo monitor
+   */
+  async validate(mint: string, ticker: string, tick: PriceTick, history: PriceHistory[]): Promise<boolean> {
+    const { priceMaxJumpPercent, priceConfirmSource, priceMaxRejections } = configManager.config;
+    if (priceMaxJumpPercent <= 0) return true;
+
+    const reference = this.median(history.slice(-REFERENCE_TICKS).map(h => h.price));
+    if (reference === null) return true;
+
+    const jump = this.jumpPercent(tick.price, reference);
+    if (Math.abs(jump) <= priceMaxJumpPercent) {
+      this.rejections.delete(mint);
+      return true;
+    }
+
+    const tickText = `$${tick.price.toFixed(8)} via ${tick.source} (${jump >= 0 ? '+' : ''}${jump.toFixed(1)}% vs referência $${reference.toFixed(8)})`;
+
+    let confirmation = priceConfirmSource === 'quote'
+      ? await priceProviderRegistry.getPriceFrom('quote', mint)
+      : await priceProviderRegistry.getPrice(mint);
+
+    // Cotação sem rota (ex: pool drenado): segunda leitura pelas fontes de preço
+    if (!confirmation && priceConfirmSource === 'quote') {
+      logger.warn(`⚠️ ${ticker} cotação sem preço para confirmar o salto - usando segunda leitura das fontes`);
+      confirmation = await priceProviderRegistry.getPrice(mint);
+    }
+
+    if (!confirmation) {
+      this.rejections.delete(mint);
+      logger.warn(`⚡ ${ticker} salto aceito sem confirmação (nenhuma fonte retornou preço): ${tickText}`);
+      return true;
+    }
+
+    const confirmText = `$${confirmation.price.toFixed(8)} via ${confirmation.source}`;
+    const confirmJump = this.jumpPercent(confirmation.price, reference);
+    const direction = Math.sign(jump);
+
+    if (Math.sign(confirmJump) === direction && Math.abs(confirmJump) > priceMaxJumpPercent) {
+      this.rejections.delete(mint);
+      logger.info(`⚡ ${ticker} salto confirmado: ${tickText} - confirmação ${confirmText}`);
+      return true;
+    }
+
+    // Rejeições seguidas na mesma direção: o preço novo é persistente, aceitar
+    const previous = this.rejections.get(mint);
+    const count = previous?.direction === direction ? previous.count + 1 : 1;
+    if (count > priceMaxRejections) {
+      this.rejections.delete(mint);
+      logger.warn(`⚡ ${ticker} salto aceito após ${priceMaxRejections} rejeição(ões) seguidas: ${tickText} - confirmação ${confirmText}`);
+      return true;
+    }
+
+    this.rejections.set(mint, { direction, count });
+    logger.warn(`🚫 ${ticker} tick rejeitado (${count}/${priceMaxRejections}): ${tickText} - confirmação ${confirmText}`);
+    return false;
+  }
+
+  private jumpPercent(price: number, reference: number): number {
+    return (price / reference - 1) * 100;
+  }
+
+  private median(values: number[]): number | null {
+    if (values.length === 0) return null;
+
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0
+      ? (sorted[middle - 1]! + sorted[middle]!) / 2
+      : sorted[middle]!;
+  }
+}
+
+export const tickValidator = new TickValidator();
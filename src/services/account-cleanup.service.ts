@@ -0,0 +1,108 @@
+import { LAMPORTS_PER_SOL, PublicKey, TransactionMessage, VersionedTransaction } from '@solana/web3.js';
+import { createCloseAccountInstruction } from '@solana/spl-token';
+import type { RentReclaimResult, TokenBalance } from '../types';
+import { config } from '../config';
+import { solanaService } from './solana.service';
+import { logger } from '../utils/logger';
+
+// Instruções de fechamento por transação (mantém a transação abaixo do limite de tamanho)
+const CLOSE_BATCH_SIZE = 15;
+
+interface CloseOptions {
+  mints?: string[]; // Fecha apenas as contas destes mints (ausente = todas as vazias)
+  excludeMints?: string[]; // Mints que nunca devem ser fechados (ex: posições ativas)
+}
+
+/**
+ * Fechamento de token accounts vazias (Token Program e Token-2022)
+ * Cada conta fechada devolve à wallet o rent depositado (~0.002 SOL).
+ */
+class AccountCleanupService {
+  async closeEmptyAccounts(options: CloseOptions = {}): Promise<RentReclaimResult> {
+    const result: RentReclaimResult = { closed: 0, failed: 0, reclaimedSol: 0, signatures: [] };
+
+    // Na carteira virtual não existem contas reais para fechar
+    if (config.paperTrading) return result;
+
+    const accounts = await solanaService.getAllTokenAccounts();
+    const empty = [...accounts.entries()]
+      .filter(([mint, account]) =>
+        account.amount === 0n &&
+        !!account.programId &&
+        (!options.mints || options.mints.includes(mint)) &&
+        !options.excludeMints?.includes(mint)
+      )
+      .map(([, account]) => account);
+
+    for (let i = 0; i < empty.length; i += CLOSE_BATCH_SIZE) {
+      const batch = empty.slice(i, i + CLOSE_BATCH_SIZE);
+      const signature = await this.closeBatch(batch);
+
+      if (signature || batch.length === 1) {
+        this.recordClose(result, batch, signature);
+        continue;
+      }
+
+      // Uma conta que não pode ser fechada (ex: Token-2022 com taxas retidas, conta congelada)
+      // derruba o lote inteiro: tentar uma a uma e pular as que falharem de novo
+      logger.warn(`♻️ Lote de ${batch.length} conta(s) falhou - tentando fechar uma a uma`);
+      for (const account of batch) {
+        this.recordClose(result, [account], await this.closeBatch([account]));
+      }
+    }
+
+    if (result.closed > 0) {
+      logger.success(`♻️ ${result.closed} token account(s) fechada(s) - ${result.reclaimedSol.toFixed(6)} SOL de rent recuperado`);
+    }
+    if (result.failed > 0) {
+      logger.warn(`♻️ ${result.failed} token account(s) não puderam ser fechadas`);
+    }
+
+    return result;
+  }
+
+  private recordClose(result: RentReclaimResult, accounts: TokenBalance[], signature: string | null): void {
+    if (!signature) {
+      result.failed += accounts.length;
+      return;
+    }
+
+    result.closed += accounts.length;
+    result.reclaimedSol += accounts.reduce((sum, account) => sum + (account.lamports || 0), 0) / LAMPORTS_PER_SOL;
+    result.signatures.push(signature);
+  }
+
+  /**
+   * Fecha um lote de contas em uma única transação (rent vai para a própria wallet)
+   * @returns assinatura confirmada ou null se a transação falhou
+   */
+  private async closeBatch(accounts: TokenBalance[]): Promise<string | null> {
+    try {
+      const wallet = solanaService.wallet.publicKey;
+      const { blockhash } = await solanaService.connection.getLatestBlockhash();
+
+      const message = new TransactionMessage({
+        payerKey: wallet,
+        recentBlockhash: blockhash,
+        instructions: accounts.map(account =>
+          createCloseAccountInstruction(new PublicKey(account.ata), wallet, wallet, [], new PublicKey(account.programId!))
+        ),
+      }).compileToV0Message();
+
+      const txB64 = Buffer.from(new VersionedTransaction(message).serialize()).toString('base64');
+      const confirmation = await solanaService.sendAndConfirmTransaction(txB64);
+
+      if (confirmation.status !== config.txCommitment) {
+        logger.warn(`♻️ Fechamento de ${accounts.length} conta(s) não confirmou (${confirmation.status})`);
+        return null;
+      }
+
+      return confirmation.signature;
+    } catch (error) {
+      logger.error('♻️ Erro ao fechar token accounts', error);
+      return null;
+    }
+  }
+}
+
+export const accountCleanupService = new AccountCleanupService();
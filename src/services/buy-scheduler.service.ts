@@ -1,34 +1,49 @@
-import type { ScheduledBuy } from '../types';
+import type { DipWatch, ScheduledBuy } from '../types';
 import { logger } from '../utils/logger';
+import { statusMonitor } from '../utils/status-monitor';
 import { configManager } from '../config/config-manager';
 import { tradingService } from './trading.service';
 import { stateService } from './state.service';
+import { positionSizingService } from './position-sizing.service';
+import { safetyService } from './safety.service';
+import { journalService } from './journal.service';
+import { pricePollerService } from './price-poller.service';
 
 /**
  * Serviço para gerenciar compras agendadas com delay
  * Permite agendar compras de tokens com um delay configurável
+ * ou observar o preço e comprar apenas após um pullback (ENTRY_MODE=dip)
  */
 class BuySchedulerService {
   private scheduledBuys = new Map<string, ScheduledBuy>();
+  private watchedTokens = new Map<string, DipWatch>();
+  private buysInProgress = new Set<string>(); // Compras entre o disparo e a marcação como visto
 
   /**
    * Agenda uma compra para ser executada após o delay configurado
    * @param mint Endereço mint do token
    * @param ticker Símbolo do token
+   * @param score Score do token no finder (define o perfil de estratégia)
    */
-  public scheduleTokenBuy(mint: string, ticker: string): void {
+  public scheduleTokenBuy(mint: string, ticker: string, score: number): void {
     // Verifica se já existe uma compra agendada para este mint
-    if (this.scheduledBuys.has(mint)) {
+    if (this.scheduledBuys.has(mint) || this.watchedTokens.has(mint) || this.buysInProgress.has(mint)) {
       logger.warn(`🕒 Compra de ${ticker} já está agendada - ignorando`);
       return;
     }
 
     const config = configManager.config;
+
+    if (config.entryMode === 'dip') {
+      this.watchForDip(mint, ticker, score).catch((e) => logger.error(`❌ Erro observando ${ticker}`, e));
+      return;
+    }
+
     const delayMs = config.buyDelayMs;
 
     if (delayMs <= 0) {
       // Se delay é 0 ou negativo, executa imediatamente
-      this.executeBuyNow(mint, ticker);
+      this.executeBuyNow(mint, ticker, score);
       return;
     }
 
@@ -37,13 +52,14 @@ class BuySchedulerService {
 
     // Criar timeout para executar a compra
     const timeoutId = setTimeout(() => {
-      this.executeBuy(mint, ticker);
+      this.executeBuy(mint, ticker, score);
     }, delayMs);
 
     // Armazenar informações da compra agendada
     const scheduledBuy: ScheduledBuy = {
       mint,
       ticker,
+      score,
       scheduledAt,
       timeoutId
     };
@@ -56,6 +72,13 @@ class BuySchedulerService {
    * @param mint Endereço mint do token
    */
   public cancelScheduledBuy(mint: string): boolean {
+    const watch = this.watchedTokens.get(mint);
+    if (watch) {
+      this.stopWatching(mint);
+      logger.info(`❌ Observação de ${watch.ticker} foi cancelada`);
+      return true;
+    }
+
     const scheduledBuy = this.scheduledBuys.get(mint);
 
     if (!scheduledBuy) {
@@ -72,50 +95,171 @@ class BuySchedulerService {
     return true;
   }
 
+  /**
+   * Observa o preço de um token recém-descoberto e compra somente se houver
+   * um pullback de dipEntryPercent% a partir do topo dentro da janela configurada.
+   * Se a janela terminar sem pullback, a compra é descartada (token marcado como visto).
+   */
+  private async watchForDip(mint: string, ticker: string, score: number): Promise<void> {
+    const config = configManager.config;
+    const startedAt = new Date();
+    const watch: DipWatch = {
+      mint,
+      ticker,
+      score,
+      startedAt,
+      expiresAt: new Date(startedAt.getTime() + config.dipEntryWindowMs),
+      highPrice: null,
+      lastPrice: null,
+    };
+
+    this.watchedTokens.set(mint, watch);
+    statusMonitor.updateWatch(mint, ticker, watch.expiresAt, config.dipEntryPercent, null);
+    logger.info(`👀 ${ticker} em observação: compra se cair ${config.dipEntryPercent}% do topo em até ${Math.round(config.dipEntryWindowMs / 1000)}s`);
+
+    // O loop termina quando a observação é cancelada (entrada removida/substituída no mapa)
+    while (this.watchedTokens.get(mint) === watch) {
+      if (Date.now() >= watch.expiresAt.getTime()) {
+        this.stopWatching(mint);
+        stateService.markAsSeen(mint);
+        logger.warn(`⌛ ${ticker} - janela de pullback encerrada sem queda de ${config.dipEntryPercent}% - compra descartada`);
+        return;
+      }
+
+      const tick = await pricePollerService.nextPrice(mint);
+      if (tick && this.watchedTokens.get(mint) === watch) {
+        const price = tick.price;
+        watch.lastPrice = price;
+        if (watch.highPrice === null || price > watch.highPrice) {
+          watch.highPrice = price;
+        }
+
+        const drawdown = (1 - price / watch.highPrice) * 100;
+        statusMonitor.updateWatch(mint, ticker, watch.expiresAt, config.dipEntryPercent, drawdown);
+
+        if (drawdown >= config.dipEntryPercent) {
+          this.stopWatching(mint);
+          logger.success(`📉 ${ticker} - pullback de ${drawdown.toFixed(2)}% do topo ($${watch.highPrice.toFixed(6)} → $${price.toFixed(6)}) - comprando!`);
+          await this.performBuyLogic(mint, ticker, score);
+          return;
+        }
+      }
+    }
+  }
+
+  /**
+   * Encerra a observação de um token e remove do status monitor
+   */
+  private stopWatching(mint: string): void {
+    this.watchedTokens.delete(mint);
+    statusMonitor.removeWatch(mint);
+  }
+
   /**
    * Executa a compra imediatamente (sem delay)
    */
-  private async executeBuyNow(mint: string, ticker: string): Promise<void> {
+  private async executeBuyNow(mint: string, ticker: string, score: number): Promise<void> {
     logger.info(`⚡ ${ticker} - comprando imediatamente`);
-    await this.performBuyLogic(mint, ticker);
+    await this.performBuyLogic(mint, ticker, score);
   }
 
   /**
    * Executa a compra agendada
    */
-  private async executeBuy(mint: string, ticker: string): Promise<void> {
+  private async executeBuy(mint: string, ticker: string, score: number): Promise<void> {
     // Remover do mapa de agendados antes de executar
     this.scheduledBuys.delete(mint);
 
     logger.success(`🎯 ${ticker} - executando compra agendada!`);
-    await this.performBuyLogic(mint, ticker);
+    await this.performBuyLogic(mint, ticker, score);
   }
 
   /**
    * Lógica principal de compra
    */
-  private async performBuyLogic(mint: string, ticker: string): Promise<void> {
+  private async performBuyLogic(mint: string, ticker: string, score: number): Promise<void> {
+    // Verificar novamente se já foi visto (pode ter mudado durante o delay)
+    if (stateService.isSeen(mint) || this.buysInProgress.has(mint)) {
+      logger.warn(`⚠️ ${ticker} já foi processado durante o delay - ignorando compra`);
+      return;
+    }
+
+    // Evita um segundo agendamento enquanto o token ainda não foi marcado como visto
+    this.buysInProgress.add(mint);
+
     try {
-      // Verificar novamente se já foi visto (pode ter mudado durante o delay)
-      if (stateService.isSeen(mint)) {
-        logger.warn(`⚠️ ${ticker} já foi processado durante o delay - ignorando compra`);
+      // Escolher o perfil de estratégia pelo score no momento da compra
+      const profile = configManager.getProfileForScore(score);
+      logger.info(`🎚️ ${ticker} (score ${score}) → perfil "${profile.name}": ${profile.amountSol} SOL, ${profile.slippageBps} bps`);
+
+      // Dimensionar a compra (modo fixo, % do saldo ou ponderado pelo score)
+      const amountSol = await positionSizingService.calculateBuyAmount(profile, score);
+      if (amountSol <= 0) {
+        stateService.markAsSeen(mint);
+        logger.warn(`⚠️ ${ticker} - tamanho de compra calculado é zero, ignorando`);
         return;
       }
 
+      // Reserva de SOL para taxas: sem saldo o token NÃO é marcado como visto e volta a ser avaliado
+      if (!(await tradingService.hasBalanceForBuy(amountSol, ticker))) {
+        return;
+      }
+
+      // Checagem de segurança antes de gastar SOL (honeypot, autoridades, transfer fee)
+      if (configManager.config.safetyCheckEnabled) {
+        const safety = await safetyService.checkToken(mint, amountSol);
+        if (safety.reasons.length > 0) {
+          const reason = safety.reasons.join('; ');
+          stateService.markAsSkipped(mint, ticker, reason);
+          logger.warn(`🚫 ${ticker} reprovado na checagem de segurança: ${reason}`);
+          return;
+        }
+        // Checagem que não rodou: o token NÃO é marcado como visto e volta a ser avaliado no próximo scraping
+        if (safety.inconclusive.length > 0) {
+          logger.warn(`⏳ ${ticker} checagem de segurança inconclusiva (${safety.inconclusive.join('; ')}) - será reavaliado`);
+          return;
+        }
+      }
+
       // Marcar como visto para evitar compras duplicadas
       stateService.markAsSeen(mint);
 
-      // Executar a compra
-      const bought = await tradingService.buyToken(mint, ticker);
+      // Dividir a entrada em parcelas (DCA_TRANCHES=1 mantém a compra única)
+      const tranches = tradingService.planTranches(amountSol);
+      const firstTranche = tranches[0]!;
+
+      // Registrar a intenção no journal antes de gastar SOL (reconciliada se o processo cair)
+      const journalId = journalService.begin({
+        side: 'buy',
+        mint,
+        ticker,
+        amountSol: firstTranche.amountSol,
+        profile: profile.name,
+        ...(tranches.length > 1 && { entrySol: amountSol }),
+      });
+
+      // Executar a compra (primeira parcela)
+      const bought = await tradingService.buyToken(mint, ticker, {
+        amountSol: firstTranche.amountSol,
+        slippageBps: profile.slippageBps,
+        journalId,
+      });
       if (!bought) {
         logger.error(`❌ Falha na compra de ${ticker}`);
         return;
       }
 
-      // Obter preço de entrada e criar posição
-      const entryUsd = await tradingService.getEntryPrice(mint);
-      const config = configManager.config;
-      stateService.createPosition(mint, ticker, entryUsd, config.amountSol);
+      // Preço de entrada pelo fill on-chain e criação da posição (tamanho e perfil ficam salvos na posição)
+      const entryUsd = await tradingService.getEntryPrice(mint, bought.fill);
+      stateService.createPosition(mint, ticker, entryUsd, firstTranche.amountSol, profile.name);
+      if (bought.fill) {
+        stateService.recordBuyFill(mint, bought.fill);
+      }
+
+      // Parcelas restantes ficam salvas no state e são executadas pelo monitor da posição
+      tradingService.setupTranches(mint, ticker, tranches, entryUsd);
+
+      journalService.complete(journalId);
 
       if (entryUsd) {
         logger.info(`💰 ${ticker} entrada: $${entryUsd.toFixed(6)}`);
@@ -128,6 +272,8 @@ class BuySchedulerService {
 
     } catch (error) {
       logger.error(`❌ Erro na compra agendada de ${ticker}`, error);
+    } finally {
+      this.buysInProgress.delete(mint);
     }
   }
 
@@ -138,6 +284,13 @@ class BuySchedulerService {
     return Array.from(this.scheduledBuys.values());
   }
 
+  /**
+   * Retorna tokens em observação aguardando pullback
+   */
+  public getWatchedTokens(): DipWatch[] {
+    return Array.from(this.watchedTokens.values());
+  }
+
   /**
    * Retorna quantidade de compras agendadas
    */
@@ -149,7 +302,7 @@ class BuySchedulerService {
    * Cancela todas as compras agendadas (útil para shutdown)
    */
   public cancelAllScheduled(): void {
-    const count = this.scheduledBuys.size;
+    const count = this.scheduledBuys.size + this.watchedTokens.size;
 
     for (const scheduledBuy of this.scheduledBuys.values()) {
       clearTimeout(scheduledBuy.timeoutId);
@@ -157,6 +310,10 @@ class BuySchedulerService {
 
     this.scheduledBuys.clear();
 
+    for (const mint of [...this.watchedTokens.keys()]) {
+      this.stopWatching(mint);
+    }
+
     if (count > 0) {
       logger.info(`🚫 ${count} compra(s) agendada(s) cancelada(s)`);
     }
@@ -168,15 +325,26 @@ class BuySchedulerService {
   public getDebugInfo(): { [key: string]: any } {
     const scheduled = Array.from(this.scheduledBuys.values()).map(buy => ({
       ticker: buy.ticker,
+      score: buy.score,
       mint: buy.mint.substring(0, 8) + '...',
       scheduledAt: buy.scheduledAt.toLocaleTimeString(),
       remainingMs: Math.max(0, buy.scheduledAt.getTime() - Date.now())
     }));
 
+    const watched = Array.from(this.watchedTokens.values()).map(watch => ({
+      ticker: watch.ticker,
+      mint: watch.mint.substring(0, 8) + '...',
+      highPrice: watch.highPrice,
+      lastPrice: watch.lastPrice,
+      remainingMs: Math.max(0, watch.expiresAt.getTime() - Date.now())
+    }));
+
     return {
       totalScheduled: this.scheduledBuys.size,
       delayConfigured: configManager.config.buyDelayMs,
-      scheduled
+      entryMode: configManager.config.entryMode,
+      scheduled,
+      watched
     };
   }
 }
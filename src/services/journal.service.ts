@@ -0,0 +1,117 @@
+import fs from 'fs';
+import type { JournalEntry, TradeOrder } from '../types';
+import { config } from '../config';
+
+// Entradas encerradas (completed/failed) mantidas no arquivo para auditoria
+const MAX_CLOSED_ENTRIES = 200;
+
+type JournalIntent = Omit<JournalEntry, 'id' | 'status' | 'signatures' | 'createdAt' | 'updatedAt'>;
+
+/**
+ * Journal de trades write-ahead (journal.json)
+ * Cada compra/venda é registrada antes de ser enviada e atualizada a cada etapa.
+ * Se o processo cair entre o swap e a atualização do state.json, as entradas
+ * que ficaram abertas são reconciliadas com a chain na inicialização.
+ * As gravações são atômicas (arquivo temporário + rename) para sobreviver a quedas no meio da escrita.
+ */
+class JournalService {
+  private entries: JournalEntry[];
+
+  constructor() {
+    this.entries = this.loadJournal();
+  }
+
+  private loadJournal(): JournalEntry[] {
+    try {
+      const data = fs.readFileSync(config.journalFile, 'utf8');
+      return JSON.parse(data);
+    } catch {
+      return [];
+    }
+  }
+
+  private saveJournal(): void {
+    const open = this.entries.filter(e => e.status !== 'completed' && e.status !== 'failed');
+    const closed = this.entries.filter(e => e.status === 'completed' || e.status === 'failed');
+    this.entries = [...closed.slice(-MAX_CLOSED_ENTRIES), ...open]
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+    const tmpFile = `${config.journalFile}.tmp`;
+    fs.writeFileSync(tmpFile, JSON.stringify(this.entries, null, 2));
+    fs.renameSync(tmpFile, config.journalFile);
+  }
+
+  /**
+   * Registra a intenção de um trade antes de qualquer chamada ao Jupiter
+   * @returns id da entrada
+   */
+  begin(intent: JournalIntent): string {
+    const now = new Date().toISOString();
+    const id = `${now}-${intent.side}-${intent.mint.substring(0, 8)}-${Math.random().toString(36).slice(2, 8)}`;
+
+    this.entries.push({ ...intent, id, status: 'intent', signatures: [], createdAt: now, updatedAt: now });
+    this.saveJournal();
+    return id;
+  }
+
+  /**
+   * Registra a assinatura de uma transação assinada e a ordem que a gerou, antes do envio
+   */
+  markSigned(id: string, signature: string, order?: TradeOrder): void {
+    this.update(id, entry => {
+      if (!entry.signatures.includes(signature)) {
+        entry.signatures.push(signature);
+        if (order) {
+          entry.orders = [...(entry.orders || []), { ...order, signature, signedAt: new Date().toISOString() }];
+        }
+      }
+      entry.status = 'signed';
+    });
+  }
+
+  markConfirmed(id: string, signature: string): void {
+    this.update(id, entry => {
+      entry.status = 'confirmed';
+      entry.confirmedSignature = signature;
+    });
+  }
+
+  /**
+   * Trade refletido no state.json: a entrada não precisa mais de reconciliação
+   */
+  complete(id: string, note?: string): void {
+    this.update(id, entry => {
+      entry.status = 'completed';
+      if (note) entry.note = note;
+    });
+  }
+
+  fail(id: string, note: string): void {
+    this.update(id, entry => {
+      entry.status = 'failed';
+      entry.note = note;
+    });
+  }
+
+  getEntry(id: string): JournalEntry | undefined {
+    return this.entries.find(e => e.id === id);
+  }
+
+  /**
+   * Entradas abertas (não completadas nem falhas), na ordem em que foram criadas
+   */
+  getOpenEntries(): JournalEntry[] {
+    return this.entries.filter(e => e.status !== 'completed' && e.status !== 'failed');
+  }
+
+  private update(id: string, apply: (entry: JournalEntry) => void): void {
+    const entry = this.entries.find(e => e.id === id);
+    if (!entry) return;
+
+    apply(entry);
+    entry.updatedAt = new Date().toISOString();
+    this.saveJournal();
+  }
+}
+
+export const journalService = new JournalService();
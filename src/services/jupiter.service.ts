@@ -1,9 +1,20 @@
 import { config } from '../config';
 import { solanaService } from './solana.service';
+import { priorityFeeService } from './priority-fee.service';
+import { paperWalletService } from './paper-wallet.service';
 import { logger } from '../utils/logger';
 import { jupiterRateLimiter } from '../utils/rate-limiter';
 import { statusMonitor } from '../utils/status-monitor';
-import type { UltraOrderParams, UltraOrderResponse, JupiterPriceResponse } from '../types';
+import type { UltraOrderParams, UltraOrderResponse, JupiterPriceResponse, JupiterQuoteResponse, QuoteResult, TradeFill, TradeOrder, TradeSide } from '../types';
+
+// Códigos de erro da API de cotação que significam "não existe rota" (e não falha da requisição)
+const NO_ROUTE_ERROR_CODES = ['COULD_NOT_FIND_ANY_ROUTE', 'NO_ROUTES_FOUND', 'TOKEN_NOT_TRADABLE'];
+
+// Transação de swap pronta para assinar (antes do envio/confirmação)
+interface SwapTransaction extends UltraOrderResponse {
+  tx?: string; // Transação serializada em base64
+  order?: TradeOrder; // Dados da ordem/cotação que gerou a transação
+}
 
 class JupiterService {
   private apiKeyIndex: number = 0;
@@ -103,11 +114,28 @@ class JupiterService {
     throw new Error('Max retries reached');
   }
 
-  async getUsdPrice(mint: string): Promise<number | null> {
+  /**
+   * Preço em USD pela API de preço V3
+   * @param trackStatus Atualiza a tabela de status (false para consultas auxiliares, ex: preço do SOL)
+   */
+  async getUsdPrice(mint: string, trackStatus: boolean = true): Promise<number | null> {
+    const prices = await this.getUsdPrices([mint], trackStatus);
+    return prices?.get(mint) ?? null;
+  }
+
+  /**
+   * Preços em USD de vários mints em uma única requisição da API de preço V3 (até 50 ids)
+   * @returns preço por mint (mints sem preço ficam fora do mapa); null se a requisição falhou
+   */
+  async getUsdPrices(mints: string[], trackStatus: boolean = true): Promise<Map<string, number> | null> {
+    const markFailed = () => {
+      if (trackStatus) mints.forEach(mint => statusMonitor.updatePrice(mint, mint.substring(0, 6), null));
+    };
+
     return jupiterRateLimiter.execute(async () => {
       try {
-        // API V3: https://api.jup.ag/price/v3?ids=MINT
-        const url = `https://api.jup.ag/price/v3?ids=${mint}`;
+        // API V3: https://api.jup.ag/price/v3?ids=MINT1,MINT2,...
+        const url = `https://api.jup.ag/price/v3?ids=${mints.join(',')}`;
         const response = await fetch(url, {
           headers: {
             'x-api-key': this.getNextApiKey(),
@@ -122,35 +150,306 @@ class JupiterService {
             `API Jupiter V3 retornou HTTP ${response.status} (Key: ...${this.apiKeys[(this.apiKeyIndex - 1 + this.apiKeys.length) % this.apiKeys.length].substring(0, 8)})`,
             { code: response.statusText, body: errorText }
           );
-          statusMonitor.updatePrice(mint, mint.substring(0, 6), null);
+          markFailed();
           return null;
         }
 
         const json = (await response.json()) as JupiterPriceResponse;
+        const prices = new Map<string, number>();
 
         // API V3 retorna: { "MINT": { "usdPrice": 123.45 } }
-        const tokenData = json[mint];
-        const price = tokenData?.usdPrice;
-        const result = typeof price === 'number' && price > 0 ? price : null;
-
-        if (result === null && json) {
-          logger.warn(`Preço não encontrado para ${mint.substring(0, 8)}... | Resposta: ${JSON.stringify(json)}`);
+        for (const mint of mints) {
+          const price = json?.[mint]?.usdPrice;
+          const result = typeof price === 'number' && price > 0 ? price : null;
+
+          if (result === null) {
+            logger.warn(`Preço não encontrado para ${mint.substring(0, 8)}...`);
+          } else {
+            prices.set(mint, result);
+          }
+
+          // Atualizar status monitor
+          if (trackStatus) {
+            statusMonitor.updatePrice(mint, mint.substring(0, 6), result);
+          }
         }
 
-        // Atualizar status monitor
-        statusMonitor.updatePrice(mint, mint.substring(0, 6), result);
-
-        return result;
+        return prices;
       } catch (error) {
         const errorMsg = error instanceof Error ? error.message : String(error);
         logger.error(`Falha ao obter preço Jupiter V3: ${errorMsg}`, error);
-        statusMonitor.updatePrice(mint, mint.substring(0, 6), null);
+        markFailed();
         return null;
       }
     });
   }
 
-  async executeTrade(params: UltraOrderParams): Promise<UltraOrderResponse> {
+  /**
+   * Cotação de swap (sem gerar transação)
+   * @returns null se não houver rota ou a API falhar
+   */
+  async getQuote(params: UltraOrderParams): Promise<JupiterQuoteResponse | null> {
+    return (await this.requestQuote(params)).quote;
+  }
+
+  /**
+   * Cotação de swap distinguindo "sem rota" (o Jupiter respondeu que não há rota) de falha na
+   * requisição (HTTP 429/5xx, erro de rede) - usado onde as duas situações têm tratamentos diferentes
+   */
+  async requestQuote(params: UltraOrderParams): Promise<QuoteResult> {
+    return jupiterRateLimiter.execute(async () => {
+      try {
+        const quoteUrl =
+          `https://api.jup.ag/swap/v1/quote` +
+          `?inputMint=${params.inputMint}` +
+          `&outputMint=${params.outputMint}` +
+          `&amount=${params.amountInt}` +
+          `&slippageBps=${params.slippageBps ?? config.slippageBps}`;
+
+        const response = await fetch(quoteUrl, {
+          headers: { 'x-api-key': this.getNextApiKey() },
+        });
+
+        if (!response.ok) {
+          const errorText = await response.text();
+          logger.warn(`Cotação Jupiter retornou HTTP ${response.status}: ${errorText}`);
+          const noRoute = response.status === 400 && NO_ROUTE_ERROR_CODES.some(code => errorText.includes(code));
+          return { quote: null, noRoute };
+        }
+
+        const quote = (await response.json()) as JupiterQuoteResponse;
+        return quote?.outAmount ? { quote, noRoute: false } : { quote: null, noRoute: true };
+      } catch (error) {
+        logger.error('Erro ao obter cotação', error);
+        return { quote: null, noRoute: false };
+      }
+    });
+  }
+
+  /**
+   * Executa um swap e aguarda a confirmação on-chain
+   * Se a transação expirar sem entrar na chain, gera nova cotação e reenvia (até txMaxResends vezes)
+   * A transação vem do Jupiter Ultra ou, se o Ultra falhar, da rota quote + swap (campo route)
+   * ok: true somente quando a transação atingiu o commitment configurado sem erro
+   * No modo paper trading o swap é simulado na carteira virtual (nada é enviado)
+   * @param onSigned Recebe cada assinatura e a ordem que a gerou antes do envio (journal write-ahead)
+   */
+  async executeTrade(
+    params: UltraOrderParams,
+    onSigned?: (signature: string, order: TradeOrder) => void
+  ): Promise<UltraOrderResponse> {
+    if (config.paperTrading) {
+      return this.simulateTrade(params, onSigned);
+    }
+
+    const maxAttempts = config.txMaxResends + 1;
+    const side: TradeSide = params.inputMint === config.solMint ? 'buy' : 'sell';
+    let result: UltraOrderResponse = { ok: false, step: 'error' };
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      // A cotação passa pelo rate limiter; a espera pela confirmação não ocupa a fila
+      const swap = await this.requestSwapTransaction(params, side);
+      if (!swap.ok || !swap.tx) {
+        return { ...swap, attempts: attempt };
+      }
+
+      try {
+        let priorityFeeMicroLamports: number | undefined;
+        const confirmation = await solanaService.sendAndConfirmTransaction(swap.tx, async (tx) => {
+          const patched = await priorityFeeService.applyToTransaction(tx, side);
+          priorityFeeMicroLamports = patched.microLamports;
+          return patched.tx;
+        }, onSigned && ((signature) => onSigned(signature, { ...swap.order, mode: swap.mode, route: swap.route })));
+        result = {
+          ok: confirmation.status === config.txCommitment,
+          signature: confirmation.signature,
+          mode: swap.mode,
+          route: swap.route,
+          requestId: swap.requestId,
+          step: confirmation.status === config.txCommitment ? undefined : `confirm_${confirmation.status}`,
+          confirmation: confirmation.status,
+          attempts: attempt,
+          priorityFeeMicroLamports,
+          raw: confirmation.error ? { error: confirmation.error, order: swap.raw } : swap.raw,
+        };
+      } catch (error) {
+        logger.error('Erro ao enviar transação', error);
+        return { ok: false, step: 'send', attempts: attempt, raw: error };
+      }
+
+      if (result.confirmation === 'expired' && attempt < maxAttempts) {
+        logger.warn(`⌛ Transação ${result.signature} expirou sem confirmar - nova cotação (tentativa ${attempt + 1}/${maxAttempts})`);
+        continue;
+      }
+
+      if (result.confirmation === 'failed') {
+        logger.error(`❌ Transação ${result.signature} falhou on-chain`, result.raw?.error);
+      } else if (result.confirmation === 'timeout') {
+        logger.warn(`⚠️ Transação ${result.signature} sem confirmação após ${config.txConfirmTimeoutMs}ms - resultado desconhecido`);
+      } else if (result.confirmation === 'expired') {
+        logger.error(`❌ Transação expirou ${maxAttempts} vez(es) sem confirmar`);
+      }
+
+      return result;
+    }
+
+    return result;
+  }
+
+  /**
+   * Simula o swap (paper trading): preenche pela cotação do Jupiter ou, sem cotação,
+   * pela API de preço; aplica o slippage e a taxa modelados e atualiza a carteira virtual
+   */
+  private async simulateTrade(
+    params: UltraOrderParams,
+    onSigned?: (signature: string, order: TradeOrder) => void
+  ): Promise<UltraOrderResponse> {
+    const side: TradeSide = params.inputMint === config.solMint ? 'buy' : 'sell';
+    const mint = side === 'buy' ? params.outputMint : params.inputMint;
+    const amountIn = BigInt(params.amountInt);
+
+    // Saldo virtual insuficiente falha como falharia on-chain
+    const available = side === 'buy'
+      ? BigInt(Math.floor((paperWalletService.getSolBalance() - config.paperFeeSol) * 1e9))
+      : paperWalletService.getTokenBalance(mint).amount;
+    if (amountIn > available) {
+      logger.error(`📝 Paper: saldo virtual insuficiente para a ${side === 'buy' ? 'compra' : 'venda'}`);
+      return { ok: false, step: 'paper_balance', mode: 'paper' };
+    }
+
+    const decimals = side === 'sell'
+      ? paperWalletService.getTokenBalance(mint).decimals
+      : await solanaService.getMintDecimals(mint);
+    if (decimals === null) {
+      return { ok: false, step: 'paper_decimals', mode: 'paper' };
+    }
+
+    const quote = await this.getQuote(params);
+    const quotedOut = quote
+      ? BigInt(quote.outAmount)
+      : await this.estimateOutFromPrices(side, mint, amountIn, decimals);
+    if (quotedOut === null || quotedOut <= 0n) {
+      return { ok: false, step: 'paper_quote', mode: 'paper' };
+    }
+
+    const out = (quotedOut * BigInt(10000 - config.paperSlippageBps)) / 10000n;
+    const signature = `paper-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+    const fill: TradeFill = {
+      signature,
+      solAmount: Number(side === 'buy' ? amountIn : out) / 1e9,
+      feeSol: config.paperFeeSol,
+      tokenAmount: (side === 'buy' ? out : amountIn).toString(),
+      decimals,
+    };
+
+    onSigned?.(signature, {
+      mode: 'paper',
+      inAmount: params.amountInt,
+      outAmount: quotedOut.toString(),
+      slippageBps: config.paperSlippageBps,
+      priceImpactPct: quote?.priceImpactPct,
+    });
+    paperWalletService.applyFill(side, mint, fill);
+    logger.info(`📝 Paper: fill simulado pela ${quote ? 'cotação' : 'API de preço'} (slippage ${config.paperSlippageBps} bps)`);
+
+    return {
+      ok: true,
+      signature,
+      mode: 'paper',
+      confirmation: config.txCommitment,
+      attempts: 1,
+      raw: { quotedOut: quotedOut.toString(), source: quote ? 'quote' : 'price' },
+    };
+  }
+
+  /**
+   * Estima a saída de um swap pelos preços em USD (fallback do paper trading sem cotação)
+   */
+  private async estimateOutFromPrices(side: TradeSide, mint: string, amountIn: bigint, decimals: number): Promise<bigint | null> {
+    const solUsd = await this.getUsdPrice(config.solMint, false);
+    const tokenUsd = await this.getUsdPrice(mint, false);
+    if (!solUsd || !tokenUsd) return null;
+
+    const tokenUnit = Math.pow(10, decimals);
+    const out = side === 'buy'
+      ? (Number(amountIn) / 1e9) * solUsd / tokenUsd * tokenUnit
+      : (Number(amountIn) / tokenUnit) * tokenUsd / solUsd * 1e9;
+
+    return BigInt(Math.floor(out));
+  }
+
+  /**
+   * Obtém a transação de swap a ser assinada: Jupiter Ultra primeiro e,
+   * se ele falhar (HTTP não-OK, ordem sem tx/requestId, erro no execute), a rota quote + swap
+   */
+  private async requestSwapTransaction(params: UltraOrderParams, side: TradeSide): Promise<SwapTransaction> {
+    const ultra = await this.requestUltraTransaction(params);
+    if (ultra.ok || !config.swapFallbackEnabled) {
+      return { ...ultra, route: 'ultra' };
+    }
+
+    logger.warn(`🔀 Jupiter Ultra falhou (${ultra.step}) - usando rota quote + swap`);
+    const fallback = await this.requestQuoteSwapTransaction(params, side);
+    if (!fallback.ok) {
+      logger.error(`🔀 Rota quote + swap também falhou (${fallback.step})`);
+    }
+
+    return { ...fallback, route: 'swap' };
+  }
+
+  /**
+   * Monta a transação pela rota quote + swap (swap/v1)
+   * A transação é assinada só pela wallet, então o priority fee configurado sempre pode ser aplicado;
+   * no modo jupiter o fee fica a cargo do Jupiter (prioritizationFeeLamports auto)
+   */
+  private async requestQuoteSwapTransaction(params: UltraOrderParams, side: TradeSide): Promise<SwapTransaction> {
+    const quote = await this.getQuote(params);
+    if (!quote) {
+      return { ok: false, step: 'quote' };
+    }
+
+    return jupiterRateLimiter.execute(async () => {
+      try {
+        const swapRes = await fetch('https://api.jup.ag/swap/v1/swap', {
+          method: 'POST',
+          headers: {
+            'x-api-key': this.getNextApiKey(),
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            quoteResponse: quote,
+            userPublicKey: String(solanaService.wallet.publicKey),
+            wrapAndUnwrapSol: true,
+            dynamicComputeUnitLimit: true,
+            ...(priorityFeeService.getSettings(side).mode === 'jupiter' && { prioritizationFeeLamports: 'auto' }),
+          }),
+        });
+
+        if (!swapRes.ok) {
+          const errorText = await swapRes.text();
+          logger.error(`API Jupiter swap retornou HTTP ${swapRes.status}`, { code: swapRes.statusText, body: errorText });
+          return { ok: false, step: 'swap_http', raw: errorText };
+        }
+
+        const swapJson = (await swapRes.json()) as { swapTransaction?: string; [key: string]: any };
+        if (!swapJson?.swapTransaction) {
+          logger.error('SWAP sem transação');
+          return { ok: false, step: 'swap', raw: swapJson };
+        }
+
+        return { ok: true, tx: swapJson.swapTransaction, mode: 'swap_tx', order: this.toTradeOrder(quote), raw: swapJson };
+      } catch (error) {
+        logger.error('Erro ao montar swap', error);
+        return { ok: false, step: 'swap_error', raw: error };
+      }
+    });
+  }
+
+  /**
+   * Solicita a ordem no Jupiter Ultra e retorna a transação a ser assinada
+   * (direto da ordem ou via /execute quando a ordem retorna apenas requestId)
+   */
+  private async requestUltraTransaction(params: UltraOrderParams): Promise<SwapTransaction> {
     return jupiterRateLimiter.execute(async () => {
       try {
         const orderUrl =
@@ -158,7 +457,7 @@ class JupiterService {
           `?inputMint=${params.inputMint}` +
           `&outputMint=${params.outputMint}` +
           `&amount=${params.amountInt}` +
-          `&slippageBps=${config.slippageBps}` +
+          `&slippageBps=${params.slippageBps ?? config.slippageBps}` +
           `&taker=${solanaService.wallet.publicKey}`;
 
         const orderRes = await fetch(orderUrl, {
@@ -179,8 +478,7 @@ class JupiterService {
         // DIRECT TX PATH
         const directTx = orderJson?.tx || orderJson?.transaction;
         if (directTx) {
-          const sig = await solanaService.signAndSendTransaction(directTx);
-          return { ok: true, signature: sig, mode: 'direct_tx', raw: orderJson };
+          return { ok: true, tx: directTx, mode: 'direct_tx', order: this.toTradeOrder(orderJson), raw: orderJson };
         }
 
         // REQUEST ID PATH
@@ -208,12 +506,12 @@ class JupiterService {
           return { ok: false, step: 'execute', raw: execJson };
         }
 
-        const sig = await solanaService.signAndSendTransaction(execJson.tx);
         return {
           ok: true,
-          signature: sig,
+          tx: execJson.tx,
           mode: 'execute_tx',
           requestId,
+          order: { ...this.toTradeOrder(orderJson), requestId },
           raw: execJson,
         };
       } catch (error) {
@@ -222,6 +520,19 @@ class JupiterService {
       }
     });
   }
+
+  /**
+   * Extrai os dados registrados no journal de uma ordem Ultra ou cotação swap/v1 (mesmos campos)
+   */
+  private toTradeOrder(json: any): TradeOrder {
+    return {
+      requestId: json?.requestId,
+      inAmount: json?.inAmount,
+      outAmount: json?.outAmount,
+      slippageBps: json?.slippageBps,
+      priceImpactPct: json?.priceImpactPct,
+    };
+  }
 }
 
 export const jupiterService = new JupiterService();
@@ -0,0 +1,89 @@
+import fs from 'fs';
+import type { PaperWallet, TokenBalance, TradeFill, TradeSide } from '../types';
+import { config } from '../config';
+import { statusMonitor } from '../utils/status-monitor';
+
+// Fills simulados mantidos no arquivo (usados pelo PnL e pela reconciliação do journal)
+const MAX_FILLS = 500;
+
+/**
+ * Carteira virtual do modo paper trading (paper-wallet.json)
+ * Guarda o saldo de SOL, os saldos de tokens e os fills simulados pelo JupiterService.
+ * O SolanaService lê saldos e fills daqui quando PAPER_TRADING=true.
+ */
+class PaperWalletService {
+  private wallet: PaperWallet;
+
+  constructor() {
+    this.wallet = this.loadWallet();
+
+    if (config.paperTrading) {
+      statusMonitor.setPaperWallet(this.wallet.sol);
+    }
+  }
+
+  private loadWallet(): PaperWallet {
+    try {
+      const data = fs.readFileSync(config.paperWalletFile, 'utf8');
+      return JSON.parse(data);
+    } catch {
+      const now = new Date().toISOString();
+      return { sol: config.paperStartingSol, tokens: {}, fills: {}, createdAt: now, updatedAt: now };
+    }
+  }
+
+  private saveWallet(): void {
+    this.wallet.updatedAt = new Date().toISOString();
+    fs.writeFileSync(config.paperWalletFile, JSON.stringify(this.wallet, null, 2));
+  }
+
+  getSolBalance(): number {
+    return this.wallet.sol;
+  }
+
+  getTokenBalance(mint: string): TokenBalance {
+    const token = this.wallet.tokens[mint];
+    return {
+      ata: 'paper',
+      amount: token ? BigInt(token.amount) : 0n,
+      decimals: token?.decimals ?? 0,
+    };
+  }
+
+  getFill(signature: string): TradeFill | null {
+    return this.wallet.fills[signature] ?? null;
+  }
+
+  /**
+   * Aplica um fill simulado aos saldos da carteira virtual
+   * Compra: debita solAmount + taxa e credita os tokens; venda: o inverso
+   */
+  applyFill(side: TradeSide, mint: string, fill: TradeFill): void {
+    const current = BigInt(this.wallet.tokens[mint]?.amount || '0');
+    const tokenAmount = BigInt(fill.tokenAmount);
+
+    if (side === 'buy') {
+      this.wallet.sol -= fill.solAmount + fill.feeSol;
+      this.wallet.tokens[mint] = { amount: (current + tokenAmount).toString(), decimals: fill.decimals };
+    } else {
+      this.wallet.sol += fill.solAmount - fill.feeSol;
+      const remaining = current - tokenAmount;
+      if (remaining > 0n) {
+        this.wallet.tokens[mint] = { amount: remaining.toString(), decimals: fill.decimals };
+      } else {
+        delete this.wallet.tokens[mint];
+      }
+    }
+
+    this.wallet.fills[fill.signature] = fill;
+    const signatures = Object.keys(this.wallet.fills);
+    for (const signature of signatures.slice(0, Math.max(0, signatures.length - MAX_FILLS))) {
+      delete this.wallet.fills[signature];
+    }
+
+    this.saveWallet();
+    statusMonitor.setPaperWallet(this.wallet.sol);
+  }
+}
+
+export const paperWalletService = new PaperWalletService();
@@ -0,0 +1,57 @@
+import type { StrategyProfile } from '../types';
+import { configManager } from '../config/config-manager';
+import { solanaService } from './solana.service';
+import { logger } from '../utils/logger';
+
+/**
+ * Serviço de dimensionamento de posição
+ * Decide quanto SOL gastar em cada compra conforme o modo configurado:
+ * - fixed: amountSol do perfil (comportamento original)
+ * - percent: percentual do saldo atual de SOL da wallet
+ * - score: amountSol do perfil ponderado pelo score do token
+ * O resultado é sempre limitado por sizingMinSol / sizingMaxSol
+ */
+class PositionSizingService {
+  /**
+   * Calcula o tamanho da compra em SOL
+   * @param profile Perfil de estratégia escolhido para o token
+   * @param score Score do token no finder
+   * @returns Quantidade de SOL a gastar (0 = não comprar)
+   */
+  public async calculateBuyAmount(profile: StrategyProfile, score: number): Promise<number> {
+    const config = configManager.config;
+
+    let amountSol = profile.amountSol;
+    let walletSol: number | null = null;
+
+    if (config.sizingMode === 'percent') {
+      walletSol = await solanaService.getSolBalance();
+      amountSol = walletSol * (config.sizingPercent / 100);
+    } else if (config.sizingMode === 'score') {
+      amountSol = profile.amountSol * (Math.max(score, 0) / config.sizingScoreReference);
+    }
+
+    const clamped = this.clamp(amountSol);
+    const rounded = Math.floor(clamped * 1e9) / 1e9;
+
+    const walletInfo = walletSol !== null ? ` | wallet: ${walletSol.toFixed(4)} SOL` : '';
+    const clampInfo = clamped !== amountSol ? ` (calculado ${amountSol.toFixed(4)} SOL, limitado)` : '';
+    logger.info(`📏 Tamanho da compra [${config.sizingMode}]: ${rounded} SOL${clampInfo}${walletInfo}`);
+
+    return rounded;
+  }
+
+  /**
+   * Aplica os limites mínimo e máximo configurados (0 = sem limite)
+   */
+  private clamp(amountSol: number): number {
+    const { sizingMinSol, sizingMaxSol } = configManager.config;
+
+    let result = amountSol;
+    if (sizingMinSol > 0) result = Math.max(result, sizingMinSol);
+    if (sizingMaxSol > 0) result = Math.min(result, sizingMaxSol);
+    return result;
+  }
+}
+
+export const positionSizingService = new PositionSizingService();
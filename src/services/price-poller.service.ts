@@ -0,0 +1,95 @@
+import type { PriceTick } from '../types';
+import { jupiterService } from './jupiter.service';
+import { stateService } from './state.service';
+import { priceProviderRegistry } from '../pricing';
+import { logger } from '../utils/logger';
+import { statusMonitor } from '../utils/status-monitor';
+
+// Ids por requisição da API de preço V3
+const PRICE_BATCH_SIZE = 50;
+
+type PriceWaiter = (tick: PriceTick | null) => void;
+
+/**
+ * Poller central de preços
+ * Em vez de cada monitor consultar seu próprio mint (uma requisição por posição pelo
+ * rate limiter global), todos os mints aguardando preço são buscados juntos em lotes
+ * de até 50 ids por ciclo e o preço é entregue a cada monitor.
+ * Cada lote passa pelas fontes de preço em ordem de prioridade (failover em src/pricing).
+ * O ciclo só roda enquanto houver algum monitor aguardando.
+ */
+class PricePollerService {
+  private waiters = new Map<string, PriceWaiter[]>();
+  private running = false;
+
+  /**
+   * Aguarda o preço do mint no próximo ciclo do poller
+   * @returns preço e fonte; null se nenhuma fonte precificou o mint neste ciclo
+   */
+  nextPrice(mint: string): Promise<PriceTick | null> {
+    return new Promise((resolve) => {
+      this.waiters.set(mint, [...(this.waiters.get(mint) || []), resolve]);
+      if (!this.running) {
+        this.run().catch((error) => logger.error('❌ Erro no poller de preços', error));
+      }
+    });
+  }
+
+  private async run(): Promise<void> {
+    this.running = true;
+
+    try {
+      // Deixa os monitores que pedem preço no mesmo instante entrarem no primeiro lote
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      while (this.waiters.size > 0) {
+        const cycleStart = Date.now();
+        await this.poll();
+
+        // Intervalo otimizado baseado no número de API keys válidas
+        // (sempre respeitado: os monitores voltam a pedir preço depois de processar o ciclo)
+        const intervalMs = jupiterService.getOptimalPriceCheckInterval() * 1000;
+        const wait = intervalMs - (Date.now() - cycleStart);
+        if (wait > 0) {
+          await new Promise(resolve => setTimeout(resolve, wait));
+        }
+      }
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Busca os preços de todos os mints aguardando, em lotes, e entrega a cada monitor
+   */
+  private async poll(): Promise<void> {
+    const mints = [...this.waiters.keys()];
+    const cycleStart = Date.now();
+    const sources: Record<string, number> = {};
+    let requests = 0;
+
+    for (let i = 0; i < mints.length; i += PRICE_BATCH_SIZE) {
+      const batch = mints.slice(i, i + PRICE_BATCH_SIZE);
+      const ticks = await priceProviderRegistry.getPrices(batch);
+      requests++;
+
+      for (const mint of batch) {
+        const waiting = this.waiters.get(mint) || [];
+        this.waiters.delete(mint);
+        const tick = ticks.get(mint) ?? null;
+
+        // Só posições aparecem no painel de tokens (mints em observação de pullback têm painel próprio)
+        if (stateService.getPosition(mint)) {
+          statusMonitor.updatePrice(mint, mint.substring(0, 6), tick?.price ?? null, false, tick?.source ?? null);
+        }
+        if (tick) sources[tick.source] = (sources[tick.source] || 0) + 1;
+
+        waiting.forEach(resolve => resolve(tick));
+      }
+    }
+
+    statusMonitor.updatePricePoller(mints.length, requests, Date.now() - cycleStart, sources);
+  }
+}
+
+export const pricePollerService = new PricePollerService();
@@ -0,0 +1,156 @@
+import {
+  ComputeBudgetInstruction,
+  ComputeBudgetProgram,
+  TransactionMessage,
+  VersionedTransaction,
+  type AddressLookupTableAccount,
+  type PublicKey,
+} from '@solana/web3.js';
+import type { PriorityFeeConfig, TradeSide } from '../types';
+import { configManager } from '../config/config-manager';
+import { solanaService } from './solana.service';
+import { logger } from '../utils/logger';
+
+interface PriorityFeeResult {
+  tx: VersionedTransaction;
+  microLamports?: number; // Ausente quando a transação foi mantida como veio
+  computeUnitLimit?: number;
+}
+
+/**
+ * Serviço de priority fee e compute units
+ * Calcula o preço por compute unit (fixo ou percentil das taxas recentes, sempre limitado
+ * pelo teto) e reescreve as instruções do ComputeBudget de uma transação antes da assinatura.
+ * Serve tanto para as transações do Jupiter Ultra quanto para transações montadas pelo bot.
+ */
+class PriorityFeeService {
+  public getSettings(side: TradeSide): PriorityFeeConfig {
+    const config = configManager.config;
+    return side === 'buy' ? config.buyPriorityFee : config.sellPriorityFee;
+  }
+
+  /**
+   * Calcula o priority fee (µlamports por compute unit) para um lado do trade
+   * @param writableAccounts Contas graváveis do swap (melhoram a estimativa por percentil)
+   * @returns null no modo jupiter (manter o fee da transação)
+   */
+  public async resolveMicroLamports(side: TradeSide, writableAccounts: PublicKey[] = []): Promise<number | null> {
+    const settings = this.getSettings(side);
+    let microLamports: number;
+
+    if (settings.mode === 'fixed') {
+      microLamports = settings.microLamports;
+    } else if (settings.mode === 'percentile') {
+      microLamports = await this.getRecentFeePercentile(settings.percentile, writableAccounts);
+    } else {
+      return null;
+    }
+
+    if (settings.maxMicroLamports > 0) {
+      microLamports = Math.min(microLamports, settings.maxMicroLamports);
+    }
+
+    return Math.floor(microLamports);
+  }
+
+  /**
+   * Aplica priority fee e limite de compute units em uma transação ainda não assinada
+   * Transações que exigem outras assinaturas além da wallet são mantidas como vieram
+   * (alterar a mensagem invalidaria as assinaturas já presentes)
+   */
+  public async applyToTransaction(tx: VersionedTransaction, side: TradeSide): Promise<PriorityFeeResult> {
+    const settings = this.getSettings(side);
+    if (settings.mode === 'jupiter' && settings.computeUnitLimit <= 0) {
+      return { tx };
+    }
+
+    const message = tx.message;
+    const wallet = solanaService.wallet.publicKey;
+    if (message.header.numRequiredSignatures !== 1 || !message.staticAccountKeys[0]?.equals(wallet)) {
+      logger.warn(`⛽ Transação co-assinada - priority fee da ${side === 'buy' ? 'compra' : 'venda'} mantido como veio do Jupiter`);
+      return { tx };
+    }
+
+    try {
+      const lookupTables = await this.fetchLookupTables(tx);
+      const decompiled = TransactionMessage.decompile(message, { addressLookupTableAccounts: lookupTables });
+
+      const writableAccounts = [...new Map(
+        decompiled.instructions
+          .flatMap(ix => ix.keys)
+          .filter(key => key.isWritable)
+          .map(key => [key.pubkey.toBase58(), key.pubkey] as const)
+      ).values()];
+      const microLamports = await this.resolveMicroLamports(side, writableAccounts);
+      const computeUnitLimit = settings.computeUnitLimit > 0 ? settings.computeUnitLimit : undefined;
+
+      // Remover apenas as instruções do ComputeBudget que serão substituídas
+      const instructions = decompiled.instructions.filter(ix => {
+        if (!ix.programId.equals(ComputeBudgetProgram.programId)) return true;
+        const type = ComputeBudgetInstruction.decodeInstructionType(ix);
+        if (type === 'SetComputeUnitPrice') return microLamports === null;
+        if (type === 'SetComputeUnitLimit') return computeUnitLimit === undefined;
+        return true;
+      });
+
+      const budget = [];
+      if (computeUnitLimit !== undefined) {
+        budget.push(ComputeBudgetProgram.setComputeUnitLimit({ units: computeUnitLimit }));
+      }
+      if (microLamports !== null) {
+        budget.push(ComputeBudgetProgram.setComputeUnitPrice({ microLamports }));
+      }
+
+      decompiled.instructions = [...budget, ...instructions];
+      const patched = new VersionedTransaction(decompiled.compileToV0Message(lookupTables));
+
+      logger.info(
+        `⛽ Priority fee da ${side === 'buy' ? 'compra' : 'venda'}: ` +
+        `${microLamports !== null ? `${microLamports} µlamports/CU` : 'do Jupiter'}` +
+        `${computeUnitLimit !== undefined ? ` | limite ${computeUnitLimit} CU` : ''}`
+      );
+
+      return { tx: patched, microLamports: microLamports ?? undefined, computeUnitLimit };
+    } catch (error) {
+      logger.error('⛽ Falha ao aplicar priority fee - enviando transação original', error);
+      return { tx };
+    }
+  }
+
+  /**
+   * Percentil das taxas de priorização dos últimos slots (0 se o RPC não retornar dados)
+   */
+  private async getRecentFeePercentile(percentile: number, writableAccounts: PublicKey[]): Promise<number> {
+    try {
+      const recent = await solanaService.connection.getRecentPrioritizationFees({
+        // O RPC aceita no máximo 128 contas
+        lockedWritableAccounts: writableAccounts.slice(0, 128),
+      });
+
+      const fees = recent.map(f => f.prioritizationFee).sort((a, b) => a - b);
+      if (fees.length === 0) return 0;
+
+      const index = Math.min(fees.length - 1, Math.ceil((percentile / 100) * fees.length) - 1);
+      return fees[Math.max(0, index)]!;
+    } catch (error) {
+      logger.warn('⛽ Não foi possível obter taxas de priorização recentes - usando 0');
+      return 0;
+    }
+  }
+
+  private async fetchLookupTables(tx: VersionedTransaction): Promise<AddressLookupTableAccount[]> {
+    const tables = await Promise.all(
+      tx.message.addressTableLookups.map(lookup =>
+        solanaService.connection.getAddressLookupTable(lookup.accountKey).then(res => res.value)
+      )
+    );
+
+    if (tables.some(table => table === null)) {
+      throw new Error('Address lookup table não encontrada');
+    }
+
+    return tables as AddressLookupTableAccount[];
+  }
+}
+
+export const priorityFeeService = new PriorityFeeService();
@@ -0,0 +1,142 @@
+import { PublicKey } from '@solana/web3.js';
+import { getTransferFeeConfig, TOKEN_2022_PROGRAM_ID, unpackMint } from '@solana/spl-token';
+import type { SafetyCheckResult } from '../types';
+import { configManager } from '../config/config-manager';
+import { jupiterService } from './jupiter.service';
+import { solanaService } from './solana.service';
+import { logger } from '../utils/logger';
+
+/**
+ * Serviço de checagem de segurança antes da compra
+ * - Cotação de ida (SOL → token) e de volta (token → SOL) para detectar tokens invendáveis
+ *   ou com perda excessiva na ida e volta / impacto de preço
+ * - Leitura da conta mint: freeze authority, mint authority e transfer fee (Token-2022)
+ */
+class SafetyService {
+  /**
+   * Verifica se o token pode ser comprado com segurança
+   * reasons = limites violados (token reprovado); inconclusive = checagens que não puderam rodar
+   * (erro de RPC/API, token ainda sem rota) - nesse caso o token deve ser reavaliado depois
+   * @param mint Endereço mint do token
+   * @param amountSol Valor da compra que seria feita
+   */
+  public async checkToken(mint: string, amountSol: number): Promise<SafetyCheckResult> {
+    const result: SafetyCheckResult = { ok: true, reasons: [], inconclusive: [] };
+
+    await this.checkMintAccount(mint, result);
+    await this.checkRoundTrip(mint, amountSol, result);
+
+    result.ok = result.reasons.length === 0 && result.inconclusive.length === 0;
+    if (result.ok) {
+      logger.info(
+        `🧪 ${mint.substring(0, 8)}... aprovado: ida/volta -${result.roundTripLossPercent?.toFixed(2)}%, ` +
+        `impacto ${result.priceImpactPercent?.toFixed(2)}%` +
+        (result.transferFeeBps ? `, transfer fee ${result.transferFeeBps} bps` : '')
+      );
+    }
+
+    return result;
+  }
+
+  /**
+   * Lê a conta mint (SPL Token ou Token-2022) e valida autoridades e transfer fee
+   */
+  private async checkMintAccount(mint: string, result: SafetyCheckResult): Promise<void> {
+    const config = configManager.config;
+
+    try {
+      const mintPk = new PublicKey(mint);
+      const accountInfo = await solanaService.connection.getAccountInfo(mintPk);
+      if (!accountInfo) {
+        // Token recém-criado pode ainda não estar visível no RPC
+        result.inconclusive.push('conta mint não encontrada');
+        return;
+      }
+
+      const mintInfo = unpackMint(mintPk, accountInfo, accountInfo.owner);
+      result.freezeAuthority = mintInfo.freezeAuthority?.toBase58() ?? null;
+      result.mintAuthority = mintInfo.mintAuthority?.toBase58() ?? null;
+
+      if (result.freezeAuthority && !config.safetyAllowFreezeAuthority) {
+        result.reasons.push(`freeze authority ativa (${result.freezeAuthority.substring(0, 8)}...)`);
+      }
+
+      if (result.mintAuthority && !config.safetyAllowMintAuthority) {
+        result.reasons.push(`mint authority ativa (${result.mintAuthority.substring(0, 8)}...)`);
+      }
+
+      if (accountInfo.owner.equals(TOKEN_2022_PROGRAM_ID)) {
+        const transferFee = getTransferFeeConfig(mintInfo);
+        if (transferFee) {
+          // Considera o maior entre a taxa atual e a agendada (a autoridade pode ter programado um aumento)
+          result.transferFeeBps = Math.max(
+            transferFee.olderTransferFee.transferFeeBasisPoints,
+            transferFee.newerTransferFee.transferFeeBasisPoints
+          );
+
+          if (result.transferFeeBps > config.safetyMaxTransferFeeBps) {
+            result.reasons.push(`transfer fee de ${result.transferFeeBps} bps (máximo ${config.safetyMaxTransferFeeBps})`);
+          }
+        }
+      }
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      result.inconclusive.push(`falha ao ler conta mint: ${errorMsg}`);
+    }
+  }
+
+  /**
+   * Cota a compra e a venda da quantidade que seria recebida
+   * Sem rota de volta (com a compra cotada) = token invendável (honeypot)
+   * Falha de requisição ou token ainda sem rota de compra = inconclusivo
+   */
+  private async checkRoundTrip(mint: string, amountSol: number, result: SafetyCheckResult): Promise<void> {
+    const config = configManager.config;
+    const lamports = BigInt(Math.floor(amountSol * 1e9));
+
+    const { quote: buyQuote, noRoute: noBuyRoute } = await jupiterService.requestQuote({
+      inputMint: config.solMint,
+      outputMint: mint,
+      amountInt: lamports.toString(),
+    });
+    if (!buyQuote) {
+      result.inconclusive.push(noBuyRoute ? 'token ainda sem rota de compra' : 'falha na cotação de compra');
+      return;
+    }
+
+    const { quote: sellQuote, noRoute: noSellRoute } = await jupiterService.requestQuote({
+      inputMint: mint,
+      outputMint: config.solMint,
+      amountInt: buyQuote.outAmount,
+    });
+    if (!sellQuote) {
+      if (noSellRoute) {
+        result.reasons.push('sem rota de venda (possível honeypot)');
+      } else {
+        result.inconclusive.push('falha na cotação de venda');
+      }
+      return;
+    }
+
+    const returnedLamports = Number(sellQuote.outAmount);
+    result.roundTripLossPercent = (1 - returnedLamports / Number(lamports)) * 100;
+    result.priceImpactPercent = Math.max(
+      Number(buyQuote.priceImpactPct) || 0,
+      Number(sellQuote.priceImpactPct) || 0
+    ) * 100;
+
+    if (result.roundTripLossPercent > config.safetyMaxRoundTripLossPercent) {
+      result.reasons.push(
+        `perda de ${result.roundTripLossPercent.toFixed(2)}% na ida e volta (máximo ${config.safetyMaxRoundTripLossPercent}%)`
+      );
+    }
+
+    if (result.priceImpactPercent > config.safetyMaxPriceImpactPercent) {
+      result.reasons.push(
+        `impacto de preço de ${result.priceImpactPercent.toFixed(2)}% (máximo ${config.safetyMaxPriceImpactPercent}%)`
+      );
+    }
+  }
+}
+
+export const safetyService = new SafetyService();
@@ -1,15 +1,40 @@
-import { Connection, Keypair, PublicKey, VersionedTransaction } from '@solana/web3.js';
-import { getAssociatedTokenAddress, TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID } from '@solana/spl-token';
+import { Connection, Keypair, LAMPORTS_PER_SOL, PublicKey, VersionedTransaction, type AccountInfo, type ParsedTransactionWithMeta, type TransactionConfirmationStatus } from '@solana/web3.js';
+import { getAssociatedTokenAddress, unpackAccount, TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID } from '@solana/spl-token';
 import bs58 from 'bs58';
 import { config } from '../config';
-import type { TokenBalance } from '../types';
+import type { TokenBalance, TradeFill, TransactionConfirmation, TxCommitment } from '../types';
+import { paperWalletService } from './paper-wallet.service';
+import { logger } from '../utils/logger';
+
+// Intervalo entre consultas de status (e retransmissões) de uma transação pendente
+const CONFIRM_POLL_MS = 2000;
+
+// Tentativas de leitura de uma transação recém-confirmada (o RPC pode demorar a indexá-la)
+const FILL_FETCH_RETRIES = 5;
+
+// Token account no cache de saldos (slot da última leitura descarta notificações antigas)
+interface CachedTokenAccount {
+  mint: string;
+  balance: TokenBalance;
+  slot: number;
+  subscriptionId: number;
+}
 
 class SolanaService {
   public connection: Connection;
   public wallet: Keypair;
 
+  // Cache de saldos: carregado uma vez, atualizado por assinaturas websocket e releituras
+  private balanceCacheReady = false;
+  private tokenAccounts = new Map<string, CachedTokenAccount>(); // chave: endereço da token account
+  private solBalance: { lamports: number; slot: number } | null = null;
+  private balanceRefresh: Promise<void> | null = null;
+
   constructor() {
-    this.connection = new Connection(config.rpcUrl, 'confirmed');
+    this.connection = new Connection(config.rpcUrl, {
+      commitment: 'confirmed',
+      wsEndpoint: config.rpcWsUrl || undefined,
+    });
     this.wallet = this.loadWallet(config.privateKey);
 
     console.log('🔥 Wallet:', this.wallet.publicKey.toString());
@@ -34,66 +59,100 @@ class SolanaService {
     const tokenMap = new Map<string, TokenBalance>();
 
     try {
-      // Método 1: Token Program (SPL Token padrão)
-      const tokenAccounts1 = await this.connection.getParsedTokenAccountsByOwner(
+      const { accounts } = await this.fetchTokenAccounts();
+
+      for (const { mint, balance } of accounts) {
+        // Se já existe (Token Program + Token-2022), manter o maior saldo
+        const existing = tokenMap.get(mint);
+        if (!existing || balance.amount > existing.amount) {
+          tokenMap.set(mint, balance);
+        }
+      }
+    } catch (error) {
+      console.error('Erro ao buscar token accounts:', error);
+    }
+
+    return tokenMap;
+  }
+
+  /**
+   * Lê as token accounts da wallet nos dois programas de token
+   * @returns contas lidas e o slot da leitura (falha do Token Program é propagada)
+   */
+  private async fetchTokenAccounts(): Promise<{ accounts: { mint: string; balance: TokenBalance }[]; slot: number }> {
+    const accounts: { mint: string; balance: TokenBalance }[] = [];
+
+    // Método 1: Token Program (SPL Token padrão)
+    const tokenAccounts1 = await this.connection.getParsedTokenAccountsByOwner(
+      this.wallet.publicKey,
+      { programId: TOKEN_PROGRAM_ID }
+    );
+    let slot = tokenAccounts1.context.slot;
+
+    for (const { account, pubkey } of tokenAccounts1.value) {
+      const parsedInfo = account.data.parsed.info;
+
+      accounts.push({
+        mint: parsedInfo.mint,
+        balance: {
+          ata: pubkey.toString(),
+          amount: BigInt(parsedInfo.tokenAmount.amount),
+          decimals: parsedInfo.tokenAmount.decimals,
+          programId: TOKEN_PROGRAM_ID.toBase58(),
+          lamports: account.lamports,
+        },
+      });
+    }
+
+    // Método 2: Token-2022 Program
+    try {
+      const tokenAccounts2 = await this.connection.getParsedTokenAccountsByOwner(
         this.wallet.publicKey,
-        { programId: TOKEN_PROGRAM_ID }
+        { programId: TOKEN_2022_PROGRAM_ID }
       );
+      slot = Math.min(slot, tokenAccounts2.context.slot);
 
-      for (const { account, pubkey } of tokenAccounts1.value) {
+      for (const { account, pubkey } of tokenAccounts2.value) {
         const parsedInfo = account.data.parsed.info;
-        const mint = parsedInfo.mint;
-        const amount = parsedInfo.tokenAmount.amount;
-        const decimals = parsedInfo.tokenAmount.decimals;
 
-        tokenMap.set(mint, {
-          ata: pubkey.toString(),
-          amount: BigInt(amount),
-          decimals: decimals,
+        accounts.push({
+          mint: parsedInfo.mint,
+          balance: {
+            ata: pubkey.toString(),
+            amount: BigInt(parsedInfo.tokenAmount.amount),
+            decimals: parsedInfo.tokenAmount.decimals,
+            programId: TOKEN_2022_PROGRAM_ID.toBase58(),
+            lamports: account.lamports,
+          },
         });
       }
-
-      // Método 2: Token-2022 Program
-      try {
-        const tokenAccounts2 = await this.connection.getParsedTokenAccountsByOwner(
-          this.wallet.publicKey,
-          { programId: TOKEN_2022_PROGRAM_ID }
-        );
-
-        for (const { account, pubkey } of tokenAccounts2.value) {
-          const parsedInfo = account.data.parsed.info;
-          const mint = parsedInfo.mint;
-          const amount = parsedInfo.tokenAmount.amount;
-          const decimals = parsedInfo.tokenAmount.decimals;
-
-          // Se já existe, manter o maior saldo
-          const existing = tokenMap.get(mint);
-          if (!existing || BigInt(amount) > existing.amount) {
-            tokenMap.set(mint, {
-              ata: pubkey.toString(),
-              amount: BigInt(amount),
-              decimals: decimals,
-            });
-          }
-        }
-      } catch (e) {
-        // Token-2022 pode não estar disponível em alguns RPCs
-      }
-    } catch (error) {
-      console.error('Erro ao buscar token accounts:', error);
+    } catch (e) {
+      // Token-2022 pode não estar disponível em alguns RPCs
     }
 
-    return tokenMap;
+    return { accounts, slot };
   }
 
   async getTokenBalance(mint: string): Promise<TokenBalance> {
+    if (config.paperTrading) {
+      return paperWalletService.getTokenBalance(mint);
+    }
+
     try {
-      // Primeiro tenta buscar de TODOS os token accounts
-      const allTokens = await this.getAllTokenAccounts();
-      const found = allTokens.get(mint);
+      // Cache ativo: saldo mantido pelas assinaturas, sem consulta ao RPC
+      const cached = this.balanceCacheReady ? this.getCachedTokenBalance(mint) : null;
+      if (cached) {
+        return cached;
+      }
+
+      // Sem cache: buscar de TODOS os token accounts
+      if (!this.balanceCacheReady) {
+        const allTokens = await this.getAllTokenAccounts();
+        const found = allTokens.get(mint);
 
-      if (found && found.amount > 0n) {
-        return found;
+        if (found && found.amount > 0n) {
+          return found;
+        }
       }
 
       // Fallback: tenta buscar pelo ATA esperado (caso seja um token novo)
@@ -108,11 +167,19 @@ class SolanaService {
         return { ata: ata.toString(), amount: 0n, decimals: 0 };
       }
 
-      return {
+      const balance: TokenBalance = {
         ata: ata.toString(),
         amount: BigInt(info.value.amount),
         decimals: info.value.decimals,
+        programId: TOKEN_PROGRAM_ID.toBase58(),
       };
+
+      // Conta ainda fora do cache (criada depois da última releitura): passar a acompanhá-la
+      if (this.balanceCacheReady) {
+        this.trackTokenAccount(mint, balance, info.context.slot);
+      }
+
+      return balance;
     } catch (error) {
       // Em caso de erro, retorna saldo zero
       const mintPk = new PublicKey(mint);
@@ -121,15 +188,353 @@ class SolanaService {
     }
   }
 
-  async signAndSendTransaction(txB64: string): Promise<string> {
-    const tx = VersionedTransaction.deserialize(Buffer.from(txB64, 'base64'));
+  /**
+   * Saldo de SOL nativo da wallet (em SOL)
+   */
+  async getSolBalance(): Promise<number> {
+    if (config.paperTrading) {
+      return paperWalletService.getSolBalance();
+    }
+
+    if (this.balanceCacheReady && this.solBalance) {
+      return this.solBalance.lamports / LAMPORTS_PER_SOL;
+    }
+
+    const lamports = await this.connection.getBalance(this.wallet.publicKey);
+    return lamports / LAMPORTS_PER_SOL;
+  }
+
+  /**
+   * Ativa o cache de saldos da wallet
+   * Os saldos são lidos uma vez e depois atualizados por assinaturas websocket da wallet e de
+   * cada token account; uma releitura completa roda a cada balanceRefreshMs e após cada transação
+   * confirmada (cobre contas novas e notificações perdidas em quedas do websocket).
+   */
+  async startBalanceCache(): Promise<void> {
+    if (config.paperTrading || !config.balanceCacheEnabled || this.balanceCacheReady) return;
+
+    try {
+      await this.loadBalances();
+    } catch (error) {
+      logger.error('🗃️ Não foi possível carregar os saldos da wallet - cache desativado (saldos lidos via RPC)', error);
+      return;
+    }
+    this.balanceCacheReady = true;
+
+    this.connection.onAccountChange(this.wallet.publicKey, (info, context) => {
+      if (this.solBalance && context.slot < this.solBalance.slot) return;
+      this.solBalance = { lamports: info.lamports, slot: context.slot };
+    }, { commitment: 'confirmed' });
+
+    setInterval(() => {
+      this.refreshBalances().catch(() => undefined);
+    }, config.balanceRefreshMs);
+
+    logger.info(`🗃️ Cache de saldos ativo: ${this.tokenAccounts.size} token account(s) acompanhada(s) via websocket`);
+  }
+
+  /**
+   * Relê todos os saldos via RPC e sincroniza o cache (sem efeito se o cache não estiver ativo)
+   * Chamadas simultâneas compartilham a mesma releitura.
+   */
+  async refreshBalances(): Promise<void> {
+    if (!this.balanceCacheReady) return;
+
+    if (!this.balanceRefresh) {
+      this.balanceRefresh = this.loadBalances()
+        .catch((error) => logger.warn(`🗃️ Falha ao reler saldos da wallet (mantendo cache): ${error instanceof Error ? error.message : error}`))
+        .finally(() => { this.balanceRefresh = null; });
+    }
+
+    return this.balanceRefresh;
+  }
+
+  /**
+   * Lê SOL e token accounts e aplica ao cache
+   * Leituras mais antigas que o estado atual (notificação mais recente) não sobrescrevem o cache.
+   */
+  private async loadBalances(): Promise<void> {
+    const [sol, { accounts, slot }] = await Promise.all([
+      this.connection.getBalanceAndContext(this.wallet.publicKey),
+      this.fetchTokenAccounts(),
+    ]);
+
+    if (!this.solBalance || sol.context.slot >= this.solBalance.slot) {
+      this.solBalance = { lamports: sol.value, slot: sol.context.slot };
+    }
+
+    const seen = new Set<string>();
+    for (const { mint, balance } of accounts) {
+      seen.add(balance.ata);
+      this.trackTokenAccount(mint, balance, slot);
+    }
+
+    // Contas que sumiram da leitura foram fechadas: parar de acompanhá-las
+    for (const [ata, cached] of this.tokenAccounts) {
+      if (!seen.has(ata) && cached.slot <= slot) {
+        this.tokenAccounts.delete(ata);
+        this.connection.removeAccountChangeListener(cached.subscriptionId).catch(() => undefined);
+      }
+    }
+  }
+
+  /**
+   * Registra (ou atualiza) uma token account no cache e assina suas mudanças
+   */
+  private trackTokenAccount(mint: string, balance: TokenBalance, slot: number): void {
+    const cached = this.tokenAccounts.get(balance.ata);
+
+    if (cached) {
+      if (slot >= cached.slot) {
+        cached.balance = balance;
+        cached.slot = slot;
+      }
+      return;
+    }
+
+    const subscriptionId = this.connection.onAccountChange(
+      new PublicKey(balance.ata),
+      (info, context) => this.onTokenAccountChange(balance.ata, info, context.slot),
+      { commitment: 'confirmed' }
+    );
+
+    this.tokenAccounts.set(balance.ata, { mint, balance, slot, subscriptionId });
+  }
+
+  /**
+   * Notificação websocket de uma token account: atualiza o saldo no cache
+   * Conta fechada (sem lamports) fica com saldo zero até a próxima releitura removê-la.
+   */
+  private onTokenAccountChange(ata: string, info: AccountInfo<Buffer>, slot: number): void {
+    const cached = this.tokenAccounts.get(ata);
+    if (!cached || slot < cached.slot) return;
+
+    let amount = 0n;
+    if (info.lamports > 0) {
+      try {
+        amount = unpackAccount(new PublicKey(ata), info, info.owner).amount;
+      } catch {
+        return; // Dados inesperados: a próxima releitura corrige
+      }
+    }
+
+    cached.balance = { ...cached.balance, amount, lamports: info.lamports };
+    cached.slot = slot;
+  }
+
+  /**
+   * Saldo do mint no cache (conta com maior saldo, como em getAllTokenAccounts)
+   */
+  private getCachedTokenBalance(mint: string): TokenBalance | null {
+    let best: TokenBalance | null = null;
+
+    for (const cached of this.tokenAccounts.values()) {
+      if (cached.mint === mint && (!best || cached.balance.amount > best.amount)) {
+        best = cached.balance;
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * Decimais do mint (null se a conta não pôde ser lida)
+   */
+  async getMintDecimals(mint: string): Promise<number | null> {
+    const info = await this.connection
+      .getParsedAccountInfo(new PublicKey(mint))
+      .catch(() => null);
+
+    const data = info?.value?.data;
+    if (!data || Buffer.isBuffer(data)) return null;
+
+    const decimals = data.parsed?.info?.decimals;
+    return typeof decimals === 'number' ? decimals : null;
+  }
+
+  /**
+   * Assina, envia e aguarda a confirmação de uma transação
+   * Enquanto a transação não aparece na chain ela é retransmitida a cada ciclo;
+   * se o blockhash expirar antes disso, o resultado é "expired" (seguro gerar nova cotação)
+   * @param prepare Ajusta a transação antes da assinatura (ex: priority fee)
+   * @param onSigned Recebe a assinatura antes do envio (journal write-ahead)
+   */
+  async sendAndConfirmTransaction(
+    txB64: string,
+    prepare?: (tx: VersionedTransaction) => Promise<VersionedTransaction>,
+    onSigned?: (signature: string) => void
+  ): Promise<TransactionConfirmation> {
+    let tx = VersionedTransaction.deserialize(Buffer.from(txB64, 'base64'));
+
+    // Ajustes antes da assinatura (ex: priority fee / compute units)
+    if (prepare) {
+      tx = await prepare(tx);
+    }
+
     tx.sign([this.wallet]);
+    const rawTx = tx.serialize();
+
+    // A assinatura já é conhecida antes do envio: registrar primeiro, enviar depois
+    onSigned?.(bs58.encode(tx.signatures[0]!));
 
-    const sig = await this.connection.sendRawTransaction(tx.serialize(), {
+    const signature = await this.connection.sendRawTransaction(rawTx, {
       skipPreflight: false,
     });
 
-    return sig;
+    const confirmation = await this.confirmTransaction(signature, tx.message.recentBlockhash, rawTx);
+
+    // Trade confirmado: sincronizar o cache de saldos (inclui contas criadas pelo swap)
+    if (confirmation.status === config.txCommitment) {
+      await this.refreshBalances();
+    }
+
+    return confirmation;
+  }
+
+  /**
+   * Acompanha o status de uma assinatura até o commitment configurado, erro on-chain,
+   * expiração do blockhash ou timeout
+   */
+  async confirmTransaction(signature: string, blockhash: string, rawTx?: Uint8Array): Promise<TransactionConfirmation> {
+    const commitment = config.txCommitment;
+    const deadline = Date.now() + config.txConfirmTimeoutMs;
+
+    while (Date.now() < deadline) {
+      const status = await this.connection
+        .getSignatureStatuses([signature], { searchTransactionHistory: false })
+        .then(res => res.value[0])
+        .catch(() => undefined);
+
+      if (status?.err) {
+        return { signature, status: 'failed', slot: status.slot, error: JSON.stringify(status.err) };
+      }
+
+      if (status && this.hasReachedCommitment(status.confirmationStatus, commitment)) {
+        return { signature, status: commitment, slot: status.slot };
+      }
+
+      // Ainda não entrou na chain: verificar se o blockhash continua válido e retransmitir
+      if (status === null) {
+        const blockhashValid = await this.connection
+          .isBlockhashValid(blockhash, { commitment: 'processed' })
+          .then(res => res.value)
+          .catch(() => true);
+
+        if (!blockhashValid) {
+          // Última checagem: a transação pode ter entrado no mesmo instante em que o blockhash expirou
+          const finalStatus = await this.connection
+            .getSignatureStatuses([signature], { searchTransactionHistory: true })
+            .then(res => res.value[0])
+            .catch(() => undefined);
+
+          if (finalStatus === null) {
+            return { signature, status: 'expired' };
+          }
+          // Entrou na chain: seguir aguardando o commitment no próximo ciclo
+        } else if (rawTx) {
+          await this.connection
+            .sendRawTransaction(rawTx, { skipPreflight: true, maxRetries: 0 })
+            .catch(() => undefined);
+        }
+      }
+
+      await new Promise(resolve => setTimeout(resolve, CONFIRM_POLL_MS));
+    }
+
+    return { signature, status: 'timeout' };
+  }
+
+  /**
+   * Procura, entre as assinaturas informadas, uma transação que entrou na chain sem erro
+   * (usado na reconciliação do journal após uma queda do processo)
+   */
+  async findSuccessfulSignature(signatures: string[]): Promise<string | null> {
+    if (signatures.length === 0) return null;
+
+    if (config.paperTrading) {
+      return signatures.find(signature => paperWalletService.getFill(signature)) ?? null;
+    }
+
+    const statuses = await this.connection.getSignatureStatuses(signatures, { searchTransactionHistory: true });
+    const index = statuses.value.findIndex(status =>
+      !!status && !status.err && this.hasReachedCommitment(status.confirmationStatus, 'confirmed')
+    );
+
+    return index >= 0 ? signatures[index]! : null;
+  }
+
+  /**
+   * Lê a transação confirmada e extrai o fill real do swap para a wallet
+   * @returns null se a transação não pôde ser lida ou não movimentou o token
+   */
+  async getTransactionFill(signature: string, mint: string): Promise<TradeFill | null> {
+    if (config.paperTrading) {
+      return paperWalletService.getFill(signature);
+    }
+
+    for (let i = 0; i < FILL_FETCH_RETRIES; i++) {
+      const tx = await this.connection
+        .getParsedTransaction(signature, { maxSupportedTransactionVersion: 0, commitment: 'confirmed' })
+        .catch(() => null);
+
+      if (tx?.meta) {
+        return this.parseFill(signature, mint, tx);
+      }
+
+      await new Promise(resolve => setTimeout(resolve, 1500 * (i + 1)));
+    }
+
+    return null;
+  }
+
+  /**
+   * Calcula o fill a partir dos saldos pré/pós da transação
+   * SOL do swap = variação de lamports da wallet e de todas as suas token accounts + taxa paga.
+   * Somar as token accounts neutraliza rent de ATAs criadas/fechadas e SOL embrulhado (WSOL).
+   */
+  private parseFill(signature: string, mint: string, tx: ParsedTransactionWithMeta): TradeFill | null {
+    const meta = tx.meta!;
+    const owner = this.wallet.publicKey.toBase58();
+    const accountKeys = tx.transaction.message.accountKeys.map(key => key.pubkey.toBase58());
+
+    const walletIndex = accountKeys.indexOf(owner);
+    if (walletIndex < 0) return null;
+
+    const preTokens = (meta.preTokenBalances || []).filter(b => b.owner === owner);
+    const postTokens = (meta.postTokenBalances || []).filter(b => b.owner === owner);
+
+    // Variação do token negociado em todas as contas da wallet
+    const sumMint = (balances: typeof preTokens) => balances
+      .filter(b => b.mint === mint)
+      .reduce((sum, b) => sum + BigInt(b.uiTokenAmount.amount), 0n);
+    const tokenDelta = sumMint(postTokens) - sumMint(preTokens);
+    if (tokenDelta === 0n) return null;
+
+    const decimals = [...postTokens, ...preTokens].find(b => b.mint === mint)?.uiTokenAmount.decimals ?? 0;
+
+    // A taxa só sai da wallet quando ela é a pagadora (índice 0)
+    const feeLamports = walletIndex === 0 ? meta.fee : 0;
+
+    const tokenAccountIndexes = new Set([...preTokens, ...postTokens].map(b => b.accountIndex));
+    let lamportDelta = (meta.postBalances[walletIndex] ?? 0) - (meta.preBalances[walletIndex] ?? 0);
+    for (const index of tokenAccountIndexes) {
+      lamportDelta += (meta.postBalances[index] ?? 0) - (meta.preBalances[index] ?? 0);
+    }
+
+    const swapLamports = lamportDelta + feeLamports;
+
+    return {
+      signature,
+      solAmount: Math.abs(swapLamports) / LAMPORTS_PER_SOL,
+      feeSol: feeLamports / LAMPORTS_PER_SOL,
+      tokenAmount: (tokenDelta < 0n ? -tokenDelta : tokenDelta).toString(),
+      decimals,
+    };
+  }
+
+  private hasReachedCommitment(current: TransactionConfirmationStatus | undefined, required: TxCommitment): boolean {
+    if (required === 'finalized') return current === 'finalized';
+    return current === 'confirmed' || current === 'finalized';
   }
 }
 
@@ -1,5 +1,5 @@
 import fs from 'fs';
-import type { State, Position } from '../types';
+import type { State, Position, ExitProgress, SellAttemptLog, SellRecord, SkippedToken, TradeFill, Tranche } from '../types';
 import { config } from '../config';
 
 class StateService {
@@ -31,17 +31,32 @@ class StateService {
     this.saveState();
   }
 
+  /**
+   * Marca o token como visto e registra por que ele não foi comprado
+   */
+  markAsSkipped(mint: string, ticker: string, reason: string): void {
+    this.state.seen[mint] = true;
+    this.state.skipped = this.state.skipped || {};
+    this.state.skipped[mint] = { ticker, reason, skippedAt: new Date().toISOString() };
+    this.saveState();
+  }
+
+  getSkipped(mint: string): SkippedToken | undefined {
+    return this.state.skipped?.[mint];
+  }
+
   isSeen(mint: string): boolean {
     return !!this.state.seen[mint];
   }
 
-  createPosition(mint: string, ticker: string, entryUsd: number | null, entryAmountSol: number): void {
+  createPosition(mint: string, ticker: string, entryUsd: number | null, entryAmountSol: number, profile?: string): void {
     const now = new Date().toISOString();
     this.state.positions[mint] = {
       ticker,
       mint,
       entryUsd,
       entryAmountSol,
+      profile,
       currentPrice: entryUsd,
       highestPrice: entryUsd,
       lowestPrice: entryUsd,
@@ -49,10 +64,8 @@ class StateService {
       lowestMultiple: 1,
       createdAt: now,
       lastUpdated: now,
-      sold: {
-        tp1: false, tp2: false, tp3: false, tp4: false,
-        sl1: false, sl2: false, sl3: false, sl4: false, sl5: false
-      },
+      sold: {},
+      trailingStops: {},
       priceHistory: entryUsd ? [{
         timestamp: now,
         price: entryUsd,
@@ -80,17 +93,25 @@ class StateService {
         price: entryUsd,
         multiple: 1
       }];
+
+      // Primeira parcela executada sem preço conhecido recebe o preço de entrada
+      const firstTranche = pos.tranches?.find(t => t.index === 0);
+      if (firstTranche && firstTranche.status === 'filled' && !firstTranche.fillPriceUsd) {
+        firstTranche.fillPriceUsd = entryUsd;
+      }
+
       this.saveState();
     }
   }
 
-  updatePrice(mint: string, currentPrice: number): void {
+  updatePrice(mint: string, currentPrice: number, source?: string): void {
     const pos = this.state.positions[mint];
     if (pos && pos.entryUsd) {
       const multiple = currentPrice / pos.entryUsd;
       const now = new Date().toISOString();
 
       pos.currentPrice = currentPrice;
+      pos.priceSource = source;
       pos.lastUpdated = now;
 
       // Atualizar maior preço
@@ -109,7 +130,8 @@ class StateService {
       pos.priceHistory.push({
         timestamp: now,
         price: currentPrice,
-        multiple
+        multiple,
+        source
       });
 
       // Manter apenas últimas 100 entradas
@@ -124,7 +146,217 @@ class StateService {
   markStageSold(mint: string, stageName: string): void {
     const pos = this.state.positions[mint];
     if (pos) {
-      pos.sold[stageName as keyof Position['sold']] = true;
+      pos.sold[stageName] = true;
+      if (pos.exitProgress) delete pos.exitProgress[stageName];
+      pos.lastUpdated = new Date().toISOString();
+      this.saveState();
+    }
+  }
+
+  /**
+   * Soma um fill de compra ao custo de entrada da posição (SOL gasto com taxas e tokens recebidos)
+   */
+  recordBuyFill(mint: string, fill: TradeFill): void {
+    const pos = this.state.positions[mint];
+    if (pos) {
+      pos.costBasisSol = (pos.costBasisSol || 0) + fill.solAmount + fill.feeSol;
+      pos.tokensBought = (BigInt(pos.tokensBought || '0') + BigInt(fill.tokenAmount)).toString();
+      pos.lastUpdated = new Date().toISOString();
+      this.saveState();
+    }
+  }
+
+  /**
+   * Registra uma venda e o PnL realizado
+   * O custo proporcional é costBasisSol * tokensVendidos / tokensComprados
+   */
+  recordSell(mint: string, stage: string, fill: TradeFill): SellRecord | undefined {
+    const pos = this.state.positions[mint];
+    if (!pos) return undefined;
+
+    const tokensBought = BigInt(pos.tokensBought || '0');
+    const costBasisSol = pos.costBasisSol !== undefined && tokensBought > 0n
+      ? pos.costBasisSol * (Number(fill.tokenAmount) / Number(tokensBought))
+      : null;
+    const solReceived = fill.solAmount - fill.feeSol;
+
+    const record: SellRecord = {
+      stage,
+      signature: fill.signature,
+      timestamp: new Date().toISOString(),
+      tokensSold: fill.tokenAmount,
+      solReceived,
+      costBasisSol,
+      pnlSol: costBasisSol !== null ? solReceived - costBasisSol : null,
+    };
+
+    pos.sells = pos.sells || [];
+    pos.sells.push(record);
+    if (record.pnlSol !== null) {
+      pos.realizedPnlSol = (pos.realizedPnlSol || 0) + record.pnlSol;
+    }
+    pos.lastUpdated = record.timestamp;
+    this.saveState();
+    return record;
+  }
+
+  /**
+   * Registra o histórico de tentativas de uma venda (mantém as últimas 50 por posição)
+   */
+  recordSellAttempts(mint: string, log: SellAttemptLog): void {
+    const pos = this.state.positions[mint];
+    if (pos) {
+      pos.sellAttempts = [...(pos.sellAttempts || []), log].slice(-50);
+      pos.lastUpdated = log.finishedAt;
+      this.saveState();
+    }
+  }
+
+  /**
+   * Inicia a venda em partes de um estágio
+   */
+  startExitProgress(mint: string, stage: string, progress: ExitProgress): void {
+    const pos = this.state.positions[mint];
+    if (pos) {
+      pos.exitProgress = { ...pos.exitProgress, [stage]: progress };
+      pos.lastUpdated = progress.startedAt;
+      this.saveState();
+    }
+  }
+
+  /**
+   * Registra uma parte vendida (o estágio só é marcado como vendido após a última)
+   */
+  recordExitChunk(mint: string, stage: string, tokensSold: bigint): void {
+    const progress = this.state.positions[mint]?.exitProgress?.[stage];
+    if (!progress) return;
+
+    const now = new Date().toISOString();
+    progress.soldAmount = (BigInt(progress.soldAmount) + tokensSold).toString();
+    progress.chunksSold++;
+    progress.lastChunkAt = now;
+    progress.nextChunkAt = new Date(Date.now() + config.sellChunkIntervalMs).toISOString();
+    this.state.positions[mint]!.lastUpdated = now;
+    this.saveState();
+  }
+
+  /**
+   * Soma o rent recuperado ao fechar a token account da posição
+   */
+  recordRentReclaimed(mint: string, sol: number): void {
+    const pos = this.state.positions[mint];
+    if (pos) {
+      pos.rentReclaimedSol = (pos.rentReclaimedSol || 0) + sol;
+      pos.lastUpdated = new Date().toISOString();
+      this.saveState();
+    }
+  }
+
+  /**
+   * Reserva o moonbag da posição (definido uma única vez, na primeira saída)
+   */
+  setMoonbag(mint: string, amount: bigint): void {
+    const pos = this.state.positions[mint];
+    if (pos) {
+      pos.moonbagAmount = amount.toString();
+      pos.lastUpdated = new Date().toISOString();
+      this.saveState();
+    }
+  }
+
+  setTranches(mint: string, tranches: Tranche[]): void {
+    const pos = this.state.positions[mint];
+    if (pos) {
+      pos.tranches = tranches.map(tranche => ({ ...tranche }));
+      pos.lastUpdated = new Date().toISOString();
+      this.saveState();
+    }
+  }
+
+  /**
+   * Marca uma parcela como executada e recalcula a entrada como média ponderada
+   * Média = SOL total / Σ(SOL da parcela / preço da parcela), ou seja, ponderada pela quantidade de tokens
+   */
+  recordTrancheFill(mint: string, index: number, fillPriceUsd: number | null): void {
+    const pos = this.state.positions[mint];
+    const tranche = pos?.tranches?.find(t => t.index === index);
+    if (!pos || !tranche) return;
+
+    const now = new Date().toISOString();
+    tranche.status = 'filled';
+    tranche.filledAt = now;
+    tranche.attempts++;
+    if (fillPriceUsd) {
+      tranche.fillPriceUsd = fillPriceUsd;
+    }
+
+    const filled = pos.tranches!.filter(t => t.status === 'filled');
+    pos.entryAmountSol = filled.reduce((sum, t) => sum + t.amountSol, 0);
+
+    const priced = filled.filter(t => t.fillPriceUsd);
+    if (priced.length > 0) {
+      const totalSol = priced.reduce((sum, t) => sum + t.amountSol, 0);
+      const tokenWeight = priced.reduce((sum, t) => sum + t.amountSol / t.fillPriceUsd!, 0);
+      const averageEntry = totalSol / tokenWeight;
+
+      pos.entryUsd = averageEntry;
+
+      // Múltiplos passam a ser calculados sobre a nova média
+      if (pos.highestPrice) pos.highestMultiple = pos.highestPrice / averageEntry;
+      if (pos.lowestPrice) pos.lowestMultiple = pos.lowestPrice / averageEntry;
+    }
+
+    pos.lastUpdated = now;
+    this.saveState();
+  }
+
+  /**
+   * Registra uma tentativa de compra de parcela que falhou
+   * Após maxAttempts tentativas a parcela é marcada como 'failed'
+   */
+  recordTrancheFailure(mint: string, index: number, maxAttempts: number): void {
+    const pos = this.state.positions[mint];
+    const tranche = pos?.tranches?.find(t => t.index === index);
+    if (!pos || !tranche) return;
+
+    tranche.attempts++;
+    if (tranche.attempts >= maxAttempts) {
+      tranche.status = 'failed';
+    }
+
+    pos.lastUpdated = new Date().toISOString();
+    this.saveState();
+  }
+
+  /**
+   * Cancela todas as parcelas ainda pendentes de uma posição
+   * @returns Quantidade de parcelas canceladas
+   */
+  cancelPendingTranches(mint: string, reason: string): number {
+    const pos = this.state.positions[mint];
+    const pending = pos?.tranches?.filter(t => t.status === 'pending') || [];
+    if (!pos || pending.length === 0) return 0;
+
+    const now = new Date().toISOString();
+    for (const tranche of pending) {
+      tranche.status = 'cancelled';
+      tranche.cancelledAt = now;
+      tranche.cancelReason = reason;
+    }
+
+    pos.lastUpdated = now;
+    this.saveState();
+    return pending.length;
+  }
+
+  activateTrailingStop(mint: string, name: string, activationPrice: number): void {
+    const pos = this.state.positions[mint];
+    if (pos) {
+      pos.trailingStops = pos.trailingStops || {};
+      pos.trailingStops[name] = {
+        activatedAt: new Date().toISOString(),
+        activationPrice
+      };
       pos.lastUpdated = new Date().toISOString();
       this.saveState();
     }
@@ -169,10 +401,15 @@ class StateService {
       pos.highestMultiple = 1;
       pos.lowestMultiple = 1;
       pos.lastUpdated = now;
-      pos.sold = {
-        tp1: false, tp2: false, tp3: false, tp4: false,
-        sl1: false, sl2: false, sl3: false, sl4: false, sl5: false
-      };
+      // Saídas por tempo contam a partir da reativação, não da compra original
+      pos.monitorStartedAt = now;
+      pos.sold = {};
+      pos.trailingStops = {};
+      pos.exitProgress = undefined;
+      pos.moonbagAmount = undefined;
+      // Tokens que reapareceram não têm custo conhecido
+      pos.costBasisSol = undefined;
+      pos.tokensBought = undefined;
       pos.priceHistory = [{
         timestamp: now,
         price: newEntryPrice,
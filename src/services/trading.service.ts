@@ -1,41 +1,103 @@
-import { config, STAGES, STOP_LOSSES } from '../config';
+import { config, configManager } from '../config';
 import { jupiterService } from './jupiter.service';
 import { solanaService } from './solana.service';
 import { stateService } from './state.service';
+import { journalService } from './journal.service';
+import { accountCleanupService } from './account-cleanup.service';
+import { pricePollerService } from './price-poller.service';
+import { priceProviderRegistry } from '../pricing';
+import { tickValidator } from '../pricing/tick-validator';
 import { logger } from '../utils/logger';
 import { statusMonitor } from '../utils/status-monitor';
+import { exitStrategyRegistry } from '../strategies';
+import type { ExitContext, ExitProgress, ExitSignal, ExitStrategy, JournalEntry, Position, SellAttemptLog, StrategyProfile, TradeFill, TradeResult, Tranche, UltraOrderResponse } from '../types';
 
-class TradingService {
-  async buyToken(mint: string, ticker?: string): Promise<boolean> {
-    const lamports = BigInt(Math.floor(config.amountSol * 1e9));
+// Tentativas de compra de uma parcela antes de marcá-la como falha
+const MAX_TRANCHE_ATTEMPTS = 3;
+
+// Trade sem confirmação (timeout): verificações na chain antes de descartar a entrada do journal
+const TX_RECHECK_ATTEMPTS = 3;
+const TX_RECHECK_DELAY_MS = 30000;
+
+interface BuyOptions {
+  amountSol?: number; // Padrão: config.amountSol
+  slippageBps?: number; // Padrão: config.slippageBps
+  journalId?: string; // Entrada do journal que acompanha esta compra
+}
 
+interface SellOptions {
+  chunkIndex?: number; // Parte de uma venda dividida (registrada no journal)
+  onSold?: () => void; // Substitui a marcação do estágio como vendido (ex: registrar a parte)
+}
+
+class TradingService {
+  // Vendas sem confirmação aguardando a verificação na chain ("mint:estágio"); o estágio não dispara de novo
+  private pendingSellChecks = new Set<string>();
+
+  /**
+   * Compra o token e lê o fill real da transação confirmada
+   * @returns null se a compra falhou; fill null se a transação não pôde ser lida
+   */
+  async buyToken(mint: string, ticker?: string, options: BuyOptions = {}): Promise<TradeResult | null> {
+    const amountSol = options.amountSol ?? config.amountSol;
+    const lamports = BigInt(Math.floor(amountSol * 1e9));
+
+    const journalId = options.journalId;
     const result = await jupiterService.executeTrade({
       inputMint: config.solMint,
       outputMint: mint,
       amountInt: lamports.toString(),
-    });
+      slippageBps: options.slippageBps,
+    }, journalId ? (signature, order) => journalService.markSigned(journalId, signature, order) : undefined);
 
     // Registrar transação
     const tickerDisplay = ticker || mint.substring(0, 6);
-    statusMonitor.addTransaction('COMPRA', tickerDisplay, `${config.amountSol} SOL`, result.ok);
+    statusMonitor.addTransaction('COMPRA', tickerDisplay, `${amountSol} SOL`, result.ok);
+
+    if (!result.ok || !result.signature) {
+      logger.error(`Compra falhou (${result.step || 'erro'})`);
+      // Resultado desconhecido fica aberto no journal e é verificado de novo na chain em segundo plano
+      if (journalId && result.confirmation === 'timeout') {
+        this.scheduleRecheck(journalId);
+      } else if (journalId) {
+        journalService.fail(journalId, result.step || 'erro');
+      }
+      return null;
+    }
 
-    if (!result.ok) {
-      logger.error('Compra falhou');
-      return false;
+    if (journalId) {
+      journalService.markConfirmed(journalId, result.signature);
     }
 
-    logger.success(`Compra: ${config.amountSol} SOL`);
-    return true;
+    logger.success(`Compra: ${amountSol} SOL (${result.confirmation}${result.route ? ` via ${result.route}` : ''}: ${result.signature})`);
+
+    const fill = await solanaService.getTransactionFill(result.signature, mint);
+    if (fill) {
+      this.logFeePaid(tickerDisplay, fill, result.priorityFeeMicroLamports);
+    } else {
+      logger.warn(`${tickerDisplay} - não foi possível ler o fill da compra ${result.signature}`);
+    }
+    await this.refreshWalletBalance();
+
+    return { signature: result.signature, fill };
   }
 
-  async sellToken(mint: string, amountBaseUnits: bigint, ticker?: string, stage?: string): Promise<boolean> {
-    if (amountBaseUnits <= 0n) return false;
+  async sellToken(
+    mint: string,
+    amountBaseUnits: bigint,
+    ticker?: string,
+    stage?: string,
+    slippageBps?: number,
+    journalId?: string
+  ): Promise<UltraOrderResponse> {
+    if (amountBaseUnits <= 0n) return { ok: false, step: 'amount' };
 
     const result = await jupiterService.executeTrade({
       inputMint: mint,
       outputMint: config.solMint,
       amountInt: amountBaseUnits.toString(),
-    });
+      slippageBps,
+    }, journalId ? (signature, order) => journalService.markSigned(journalId, signature, order) : undefined);
 
     // Registrar transação com formatação legível
     const tickerDisplay = ticker || mint.substring(0, 6);
@@ -47,38 +109,458 @@ class TradingService {
 
     statusMonitor.addTransaction('VENDA', tickerDisplay, amountDisplay, result.ok, stage);
 
-    if (!result.ok) {
-      logger.error('Venda falhou');
-      return false;
+    if (!result.ok || !result.signature) {
+      logger.error(`Venda falhou (${result.step || 'erro'})`);
+      return result;
     }
 
-    logger.success(`Venda executada`);
-    return true;
+    logger.success(`Venda executada (${result.confirmation}${result.route ? ` via ${result.route}` : ''}: ${result.signature})`);
+    if (journalId) {
+      journalService.markConfirmed(journalId, result.signature);
+    }
+
+    // Registrar SOL recebido e PnL realizado a partir da transação confirmada
+    const fill = await solanaService.getTransactionFill(result.signature, mint);
+    const record = fill ? stateService.recordSell(mint, stage || 'manual', fill) : undefined;
+    if (fill) {
+      this.logFeePaid(tickerDisplay, fill, result.priorityFeeMicroLamports);
+    }
+    if (record) {
+      const pnlText = record.pnlSol !== null ? ` | PnL ${record.pnlSol >= 0 ? '+' : ''}${record.pnlSol.toFixed(4)} SOL` : '';
+      logger.info(`💵 ${tickerDisplay} ${(stage || 'venda').toUpperCase()}: recebeu ${record.solReceived.toFixed(4)} SOL${pnlText}`);
+    } else {
+      logger.warn(`${tickerDisplay} - não foi possível ler o fill da venda ${result.signature}`);
+    }
+    await this.refreshWalletBalance();
+
+    return result;
+  }
+
+  /**
+   * Vende com retentativas conforme a política do tipo de saída
+   * O slippage começa no do perfil e sobe slippageStepBps por tentativa até maxSlippageBps;
+   * todas as tentativas e o resultado final ficam registrados em sellAttempts na posição.
+   * Uma venda confirmada marca o estágio como vendido (ou chama options.onSold) e fecha a entrada no journal.
+   * @returns true se a venda foi confirmada
+   */
+  private async sellWithRetry(
+    mint: string,
+    amountBaseUnits: bigint,
+    ticker: string,
+    stage: string,
+    kind: 'profit' | 'protection',
+    baseSlippageBps: number,
+    options: SellOptions = {}
+  ): Promise<boolean> {
+    const policy = kind === 'profit' ? config.tpSellRetry : config.slSellRetry;
+    const log: SellAttemptLog = {
+      stage,
+      kind,
+      startedAt: new Date().toISOString(),
+      finishedAt: '',
+      outcome: 'failed',
+      attempts: [],
+    };
+    const journalId = journalService.begin({
+      side: 'sell',
+      mint,
+      ticker,
+      stage,
+      chunkIndex: options.chunkIndex,
+      amountTokens: amountBaseUnits.toString(),
+    });
+
+    for (let attempt = 1; attempt <= policy.maxAttempts; attempt++) {
+      const slippageBps = Math.min(
+        baseSlippageBps + policy.slippageStepBps * (attempt - 1),
+        Math.max(policy.maxSlippageBps, baseSlippageBps)
+      );
+
+      if (attempt > 1) {
+        logger.warn(`🔁 ${ticker} ${stage.toUpperCase()} - tentativa ${attempt}/${policy.maxAttempts} com slippage ${slippageBps} bps`);
+      }
+
+      const result = await this.sellToken(mint, amountBaseUnits, ticker, stage, slippageBps, journalId);
+      log.attempts.push({
+        attempt,
+        slippageBps,
+        ok: result.ok,
+        step: result.step,
+        signature: result.signature,
+        at: new Date().toISOString(),
+      });
+
+      if (result.ok) {
+        log.outcome = 'sold';
+        break;
+      }
+
+      // Resultado desconhecido: a venda pode ter entrado. O estágio fica bloqueado até as
+      // assinaturas serem verificadas na chain (senão o mesmo sinal venderia de novo)
+      if (result.confirmation === 'timeout') {
+        log.outcome = 'unknown';
+        this.pendingSellChecks.add(`${mint}:${stage}`);
+        this.scheduleRecheck(journalId);
+        break;
+      }
+
+      if (attempt < policy.maxAttempts) {
+        await this.sleep(policy.backoffMs * attempt);
+      }
+    }
+
+    log.finishedAt = new Date().toISOString();
+    stateService.recordSellAttempts(mint, log);
+
+    if (log.outcome === 'sold') {
+      if (options.onSold) {
+        options.onSold();
+      } else {
+        stateService.markStageSold(mint, stage);
+      }
+      journalService.complete(journalId);
+    } else if (log.outcome === 'failed') {
+      journalService.fail(journalId, `${log.attempts.length} tentativa(s) sem sucesso`);
+      logger.error(`❌ ${ticker} ${stage.toUpperCase()} - venda falhou após ${log.attempts.length} tentativa(s)`);
+    }
+
+    return log.outcome === 'sold';
+  }
+
+  /**
+   * Divide o valor total da entrada em parcelas conforme DCA_TRANCHES / DCA_MODE
+   * A parcela 0 é a compra imediata; as demais ficam pendentes até o gatilho (tempo ou queda)
+   * @param totalSol Valor total da entrada em SOL
+   */
+  planTranches(totalSol: number): Tranche[] {
+    const count = Math.max(1, Math.floor(config.dcaTranches));
+    const amountSol = Math.floor((totalSol / count) * 1e9) / 1e9;
+    const now = Date.now();
+
+    return Array.from({ length: count }, (_, index) => {
+      const tranche: Tranche = {
+        index,
+        amountSol,
+        status: 'pending',
+        trigger: config.dcaMode,
+        attempts: 0,
+      };
+
+      if (index > 0) {
+        if (config.dcaMode === 'time') {
+          tranche.executeAt = new Date(now + index * config.dcaIntervalMs).toISOString();
+        } else {
+          tranche.dipPercent = index * config.dcaDipPercent;
+        }
+      }
+
+      return tranche;
+    });
+  }
+
+  /**
+   * Salva as parcelas de uma entrada dividida com a primeira já comprada;
+   * as restantes são executadas pelo monitor da posição
+   */
+  setupTranches(mint: string, ticker: string, tranches: Tranche[], firstFillPrice: number | null): void {
+    const first = tranches[0];
+    if (!first || tranches.length <= 1) return;
+
+    stateService.setTranches(mint, tranches);
+    stateService.recordTrancheFill(mint, first.index, firstFillPrice);
+    logger.info(`🧩 ${ticker} - entrada em ${tranches.length} parcelas de ${first.amountSol} SOL (${tranches.length - 1} pendente(s))`);
   }
 
-  async getEntryPrice(mint: string, maxRetries = 15): Promise<number | null> {
+  /**
+   * Cancela as parcelas pendentes de uma posição
+   * @returns Quantidade de parcelas canceladas
+   */
+  cancelPendingTranches(mint: string, reason = 'cancelada manualmente'): number {
+    const cancelled = stateService.cancelPendingTranches(mint, reason);
+    if (cancelled > 0) {
+      const ticker = stateService.getPosition(mint)?.ticker || mint.substring(0, 6);
+      logger.info(`🧩 ${ticker} - ${cancelled} parcela(s) cancelada(s) (${reason})`);
+    }
+    return cancelled;
+  }
+
+  /**
+   * Preço de entrada em USD
+   * Usa o fill on-chain (SOL pago / tokens recebidos × preço do SOL) e só recorre
+   * à API de preço do token se o fill não estiver disponível
+   */
+  async getEntryPrice(mint: string, fill: TradeFill | null = null, maxRetries = 15): Promise<number | null> {
+    if (fill) {
+      const fillPrice = await this.getFillPriceUsd(fill);
+      if (fillPrice) return fillPrice;
+      logger.warn(`Preço do SOL indisponível - usando API de preço para a entrada de ${mint.substring(0, 6)}`);
+    }
+
     for (let i = 0; i < maxRetries; i++) {
-      const price = await jupiterService.getUsdPrice(mint);
-      if (price) return price;
+      const tick = await priceProviderRegistry.getPrice(mint);
+      if (tick) return tick.price;
       await this.sleep(2000);
     }
     return null;
   }
 
+  private logFeePaid(ticker: string, fill: TradeFill, priorityFeeMicroLamports?: number): void {
+    const priorityText = priorityFeeMicroLamports !== undefined ? ` (priority ${priorityFeeMicroLamports} µlamports/CU)` : '';
+    logger.info(`⛽ ${ticker} taxa paga: ${fill.feeSol.toFixed(6)} SOL${priorityText}`);
+  }
+
+  /**
+   * Preço em USD por token efetivamente pago/recebido em um fill
+   */
+  async getFillPriceUsd(fill: TradeFill): Promise<number | null> {
+    const tokens = Number(fill.tokenAmount) / Math.pow(10, fill.decimals);
+    if (tokens <= 0) return null;
+
+    const solUsd = await jupiterService.getUsdPrice(config.solMint, false);
+    if (!solUsd) return null;
+
+    return (fill.solAmount * solUsd) / tokens;
+  }
+
+  /**
+   * Confere se a wallet cobre a compra sem gastar a reserva de SOL para taxas
+   * Sem saldo legível a compra não é feita (a reserva não pode ser garantida)
+   */
+  async hasBalanceForBuy(amountSol: number, ticker: string): Promise<boolean> {
+    const balance = await this.refreshWalletBalance();
+    if (balance === null) {
+      logger.warn(`🏦 ${ticker} - saldo de SOL indisponível, compra adiada`);
+      return false;
+    }
+
+    const required = amountSol + config.solReserveSol;
+    statusMonitor.setBuyRequirement(required);
+    if (balance < required) {
+      logger.warn(
+        `🏦 ${ticker} - saldo ${balance.toFixed(4)} SOL abaixo de ${required.toFixed(4)} SOL ` +
+        `(compra ${amountSol} + reserva ${config.solReserveSol}) - compra adiada`
+      );
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Lê o saldo de SOL da wallet e atualiza o alerta de reserva no status
+   * @returns null se o saldo não pôde ser lido
+   */
+  async refreshWalletBalance(): Promise<number | null> {
+    try {
+      const balance = await solanaService.getSolBalance();
+      statusMonitor.updateWallet(balance, config.solReserveSol, config.solReserveWarnSol);
+      return balance;
+    } catch (error) {
+      logger.error('Erro ao ler saldo de SOL da wallet', error);
+      return null;
+    }
+  }
+
+  /**
+   * Reconcilia as entradas abertas do journal com a chain (chamado na inicialização)
+   * Trades que chegaram à chain mas não ao state.json criam/reparam a posição;
+   * trades sem transação confirmada são marcados como falhos.
+   */
+  async reconcileJournal(): Promise<void> {
+    const entries = journalService.getOpenEntries();
+    if (entries.length === 0) return;
+
+    logger.info(`📒 Reconciliando ${entries.length} entrada(s) abertas do journal...`);
+
+    for (const entry of entries) {
+      const label = this.journalLabel(entry);
+
+      try {
+        const signature = entry.confirmedSignature
+          || await solanaService.findSuccessfulSignature(entry.signatures);
+
+        if (!signature) {
+          journalService.fail(entry.id, entry.signatures.length === 0
+            ? 'interrompido antes do envio'
+            : 'nenhuma transação confirmada na chain');
+          logger.warn(`📒 ${label} - sem transação confirmada, entrada descartada`);
+          continue;
+        }
+
+        const fill = await solanaService.getTransactionFill(signature, entry.mint);
+
+        if (entry.side === 'buy') {
+          await this.reconcileBuy(entry, signature, fill);
+        } else if (entry.stage) {
+          this.reconcileSell(entry.mint, entry.stage, fill, entry.chunkIndex);
+        }
+
+        journalService.complete(entry.id, 'reconciliado na inicialização');
+        logger.success(`📒 ${label} - reconciliado (${signature})`);
+      } catch (error) {
+        // Mantém a entrada aberta para nova tentativa na próxima inicialização
+        logger.error(`📒 Erro reconciliando ${label}`, error);
+      }
+    }
+  }
+
+  private journalLabel(entry: JournalEntry): string {
+    return `${entry.ticker} ${entry.side === 'buy' ? 'compra' : `venda ${entry.stage?.toUpperCase() || ''}`}`.trim();
+  }
+
+  /**
+   * Agenda uma nova verificação na chain de um trade que ficou sem confirmação (timeout)
+   * A transação ainda pode entrar até o blockhash expirar: sem isso o trade só seria reconciliado
+   * na próxima inicialização (compra sem posição, venda sem estágio marcado e sem PnL)
+   */
+  private scheduleRecheck(journalId: string, attempt = 1): void {
+    setTimeout(() => this.recheckEntry(journalId, attempt), TX_RECHECK_DELAY_MS);
+  }
+
+  private async recheckEntry(journalId: string, attempt: number): Promise<void> {
+    const entry = journalService.getEntry(journalId);
+    if (!entry) return;
+
+    const sellKey = entry.side === 'sell' ? `${entry.mint}:${entry.stage}` : null;
+    if (entry.status === 'completed' || entry.status === 'failed') {
+      if (sellKey) this.pendingSellChecks.delete(sellKey);
+      return;
+    }
+
+    const label = this.journalLabel(entry);
+    let created = false;
+
+    try {
+      const signature = entry.confirmedSignature
+        || await solanaService.findSuccessfulSignature(entry.signatures);
+
+      if (!signature) {
+        if (attempt < TX_RECHECK_ATTEMPTS) {
+          this.scheduleRecheck(journalId, attempt + 1);
+          return;
+        }
+        journalService.fail(journalId, 'nenhuma transação confirmada na chain');
+        if (sellKey) this.pendingSellChecks.delete(sellKey);
+        logger.warn(`📒 ${label} - sem transação confirmada após ${attempt} verificação(ões), entrada descartada`);
+        return;
+      }
+
+      journalService.markConfirmed(journalId, signature);
+      const fill = await solanaService.getTransactionFill(signature, entry.mint);
+
+      if (entry.side === 'buy') {
+        created = await this.reconcileBuy(entry, signature, fill);
+      } else if (entry.stage) {
+        this.reconcileSell(entry.mint, entry.stage, fill, entry.chunkIndex);
+      }
+
+      journalService.complete(journalId, 'reconciliado após timeout da confirmação');
+      if (sellKey) this.pendingSellChecks.delete(sellKey);
+      logger.success(`📒 ${label} - confirmada após o timeout (${signature})`);
+    } catch (error) {
+      // RPC com erro não conta como verificação: o trade continua pendente (e a venda bloqueada)
+      logger.error(`📒 Erro verificando ${label} sem confirmação - nova verificação em ${TX_RECHECK_DELAY_MS / 1000}s`, error);
+      this.scheduleRecheck(journalId, attempt);
+      return;
+    }
+
+    await this.refreshWalletBalance();
+
+    // Posição nova precisa de monitor (parcelas DCA já estão no monitor da posição existente)
+    if (created) {
+      this.monitorPosition(entry.mint).catch((e) => logger.error(`❌ Erro no monitor ${entry.ticker}`, e));
+    }
+  }
+
+  /**
+   * Venda sem confirmação ainda em verificação na chain (de um estágio ou de qualquer estágio do mint)
+   */
+  private hasPendingSell(mint: string, stage?: string): boolean {
+    if (stage !== undefined) return this.pendingSellChecks.has(`${mint}:${stage}`);
+    return [...this.pendingSellChecks].some(key => key.startsWith(`${mint}:`));
+  }
+
+  /**
+   * Recria ou repara a posição de uma compra confirmada (incluindo as parcelas DCA pendentes)
+   * @returns true se a posição foi criada a partir da compra
+   */
+  private async reconcileBuy(entry: JournalEntry, signature: string, fill: TradeFill | null): Promise<boolean> {
+    const { mint, ticker, trancheIndex } = entry;
+    const pos = stateService.getPosition(mint);
+
+    if (!pos) {
+      const amountSol = entry.amountSol ?? fill?.solAmount ?? 0;
+      const entryUsd = await this.getEntryPrice(mint, fill);
+      stateService.markAsSeen(mint);
+      stateService.createPosition(mint, ticker, entryUsd, amountSol, entry.profile);
+      if (fill) stateService.recordBuyFill(mint, fill);
+      if (entry.entrySol !== undefined && trancheIndex === undefined) {
+        this.setupTranches(mint, ticker, this.planTranches(entry.entrySol), entryUsd);
+      }
+      logger.warn(`📒 ${ticker} - posição recriada a partir da compra ${signature}`);
+      return true;
+    }
+
+    if (trancheIndex !== undefined) {
+      const tranche = pos.tranches?.find(t => t.index === trancheIndex);
+      if (tranche && tranche.status === 'pending') {
+        const fillPrice = fill ? await this.getFillPriceUsd(fill) : null;
+        if (fill) stateService.recordBuyFill(mint, fill);
+        stateService.recordTrancheFill(mint, trancheIndex, fillPrice);
+      }
+      return false;
+    }
+
+    // Posição criada mas o custo de entrada não chegou a ser registrado
+    if (pos.tokensBought === undefined && fill) {
+      stateService.recordBuyFill(mint, fill);
+    }
+    return false;
+  }
+
+  private reconcileSell(mint: string, stage: string, fill: TradeFill | null, chunkIndex?: number): void {
+    const pos = stateService.getPosition(mint);
+    if (!pos) return;
+
+    // O fill entra no PnL mesmo se o estágio já estiver marcado como vendido
+    const alreadyRecorded = !!fill && !!pos.sells?.some(s => s.signature === fill.signature);
+    if (fill && !alreadyRecorded) {
+      stateService.recordSell(mint, stage, fill);
+    }
+    if (pos.sold[stage]) return;
+
+    // Parte de uma venda dividida: registrar a parte; as restantes são retomadas pelo monitor
+    const progress = pos.exitProgress?.[stage];
+    if (chunkIndex !== undefined && progress) {
+      if (progress.chunksSold <= chunkIndex && !alreadyRecorded) {
+        stateService.recordExitChunk(mint, stage, fill ? BigInt(fill.tokenAmount) : 0n);
+      }
+      return;
+    }
+
+    stateService.markStageSold(mint, stage);
+  }
+
   async monitorPosition(mint: string): Promise<void> {
     const pos = stateService.getPosition(mint);
     if (!pos) return;
 
     const ticker = mint.substring(0, 6);
 
+    // Perfil escolhido na compra (posições antigas usam o perfil padrão)
+    let profile = configManager.getProfile(pos.profile);
+    if (pos.profile && profile.name !== pos.profile) {
+      logger.warn(`${ticker} perfil "${pos.profile}" não existe mais - usando perfil "${profile.name}"`);
+    }
+
     // Aguardar preço de entrada se não existir
     if (!pos.entryUsd) {
       logger.info(`${ticker} aguardando preço de entrada...`);
       for (let i = 0; i < 20; i++) {
-        const price = await jupiterService.getUsdPrice(mint);
-        if (price) {
-          stateService.updatePositionEntry(mint, price);
-          logger.success(`${ticker} entrada: $${price.toFixed(6)}`);
+        const tick = await priceProviderRegistry.getPrice(mint);
+        if (tick) {
+          stateService.updatePositionEntry(mint, tick.price);
+          logger.success(`${ticker} entrada: $${tick.price.toFixed(6)} (fonte: ${tick.source})`);
           break;
         }
         await this.sleep(2000);
@@ -94,39 +576,82 @@ class TradingService {
     }
 
     while (true) {
-      // Verificar se TP4 foi executado ou se saldo é zero
+      // Reler o perfil a cada ciclo para refletir mudanças de configuração em runtime
+      profile = configManager.getProfile(pos.profile);
+
+      // Verificar se a posição foi totalmente encerrada ou se saldo é zero
       const balance = await solanaService.getTokenBalance(mint);
 
-      // Se TP4 foi executado e saldo é zero, finalizar monitoramento
-      if (pos.sold?.tp4 && balance.amount === 0n) {
-        logger.info(`${pos.ticker || mint.substring(0, 6)} - Monitoramento finalizado (TP4 completo)`);
+      // Se o último estágio foi executado e saldo é zero, finalizar monitoramento
+      if (this.isFullyExited(pos, profile, balance.amount)) {
+        this.cancelPendingTranches(mint, 'posição encerrada');
+        statusMonitor.completeToken(mint);
+        const moonbagText = balance.amount > 0n ? ' - moonbag mantido na wallet' : '';
+        logger.info(`${pos.ticker || mint.substring(0, 6)} - Monitoramento finalizado (saída completa)${moonbagText}`);
+        if (balance.amount === 0n) {
+          await this.reclaimRent(mint);
+        }
         return;
       }
 
-      // Se saldo é zero mas TP4 não foi executado, pausar posição
-      if (balance.amount === 0n && !pos.sold?.tp4) {
+      // Venda sem confirmação pode ter zerado o saldo: aguardar a verificação na chain antes de pausar
+      if (balance.amount === 0n && this.hasPendingSell(mint)) {
+        await pricePollerService.nextPrice(mint);
+        continue;
+      }
+
+      // Se saldo é zero mas a saída não foi concluída, pausar posição
+      if (balance.amount === 0n) {
+        this.cancelPendingTranches(mint, 'posição pausada');
         stateService.pausePosition(mint);
         statusMonitor.pauseToken(mint);
         logger.warn(`${pos.ticker || mint.substring(0, 6)} - Posição pausada (saldo zero)`);
         return;
       }
 
-      const currentPrice = await jupiterService.getUsdPrice(mint);
-      if (!currentPrice || !pos.entryUsd) {
-        // Usar intervalo otimizado baseado no número de API keys válidas
-      const optimalInterval = jupiterService.getOptimalPriceCheckInterval();
-      await this.sleep(optimalInterval * 1000);
+      // Retomar vendas em partes interrompidas (reinício ou falha de uma parte)
+      for (const stage of Object.keys(pos.exitProgress || {})) {
+        if (pos.sold?.[stage] || this.hasPendingSell(mint, stage)) continue;
+
+        const closesPosition = pos.exitProgress![stage]!.closesPosition;
+        const sold = await this.sellInChunks(mint, pos.ticker || mint.substring(0, 6), stage, profile.slippageBps);
+        if (sold && closesPosition && !this.hasPendingHardExit(pos, profile)) {
+          logger.info(`${pos.ticker || mint.substring(0, 6)} - Monitoramento finalizado (${stage.toUpperCase()} total)`);
+          await this.reclaimRent(mint);
+          return;
+        }
+      }
+
+      // Preço do próximo ciclo do poller central (o ritmo do monitor acompanha o poller)
+      const tick = await pricePollerService.nextPrice(mint);
+      if (!tick || !pos.entryUsd) {
         continue;
       }
+      const currentPrice = tick.price;
+
+      // Tick fora da curva (salto vs preços recentes) só é usado se uma segunda leitura confirmar
+      if (!(await tickValidator.validate(mint, pos.ticker || mint.substring(0, 6), tick, pos.priceHistory))) {
+        continue;
+      }
+
+      // Failover entre fontes de preço fica registrado no log
+      if (pos.priceSource && pos.priceSource !== tick.source) {
+        logger.info(`💱 ${pos.ticker || mint.substring(0, 6)} preço agora via ${tick.source} (antes: ${pos.priceSource})`);
+      }
+
+      // Executar parcelas pendentes da entrada (DCA) antes de avaliar as saídas
+      if (pos.tranches?.some(t => t.status === 'pending')) {
+        await this.processTranches(mint, pos, currentPrice, profile);
+      }
 
       const multiple = currentPrice / pos.entryUsd;
       const percentChange = ((multiple - 1) * 100).toFixed(2);
 
       // Atualizar histórico de preços
-      stateService.updatePrice(mint, currentPrice);
+      stateService.updatePrice(mint, currentPrice, tick.source);
 
       // Encontrar próximo TP
-      const nextTp = STAGES.find(s => !pos.sold?.[s.name as keyof typeof pos.sold]);
+      const nextTp = profile.stages.find(s => !pos.sold?.[s.name]);
       const nextTpText = nextTp
         ? `→ ${nextTp.name.toUpperCase()} (${nextTp.multiple}x)`
         : 'Concluído';
@@ -134,31 +659,27 @@ class TradingService {
       // Usar ticker do state ao invés de substring
       const ticker = pos.ticker || mint.substring(0, 6);
 
-      // Calcular TPs e SLs vendidos
-      const soldTPs = [];
-      if (pos.sold?.tp1) soldTPs.push('tp1');
-      if (pos.sold?.tp2) soldTPs.push('tp2');
-      if (pos.sold?.tp3) soldTPs.push('tp3');
-      if (pos.sold?.tp4) soldTPs.push('tp4');
-      if (pos.sold?.sl1) soldTPs.push('sl1');
-      if (pos.sold?.sl2) soldTPs.push('sl2');
-      if (pos.sold?.sl3) soldTPs.push('sl3');
-      if (pos.sold?.sl4) soldTPs.push('sl4');
-      if (pos.sold?.sl5) soldTPs.push('sl5');
+      // Calcular níveis vendidos (na ordem em que foram executados)
+      const soldTPs = Object.keys(pos.sold || {}).filter(name => pos.sold[name]);
 
       // Formatar saldo
       const balanceFormatted = balance.amount > 0n
         ? (Number(balance.amount) / Math.pow(10, balance.decimals)).toFixed(2)
         : '0';
+      const moonbag = BigInt(pos.moonbagAmount || '0');
+      const moonbagFormatted = moonbag > 0n
+        ? (Number(moonbag) / Math.pow(10, balance.decimals)).toFixed(2)
+        : undefined;
 
-      // Atualizar status monitor (vai remover automaticamente se TP4 + saldo zero)
+      // Atualizar status monitor
       statusMonitor.updatePosition(
         mint,
         ticker,
         multiple,
         (percentChange >= '0' ? '+' : '') + percentChange + '%',
         soldTPs,
-        balanceFormatted
+        balanceFormatted,
+        moonbagFormatted
       );
 
       logger.position(
@@ -169,88 +690,309 @@ class TradingService {
         pos.highestMultiple || multiple
       );
 
-      for (const stage of STAGES) {
-        pos.sold = pos.sold || {};
-        if (pos.sold[stage.name as keyof typeof pos.sold]) continue;
-
-        if (multiple >= stage.multiple) {
-          // Buscar saldo atualizado antes de vender
-          const currentBalance = await solanaService.getTokenBalance(mint);
-
-          if (currentBalance.amount <= 0n) {
-            logger.warn(`Sem saldo para ${stage.name}`);
-            stateService.markStageSold(mint, stage.name);
+      // Avaliar as estratégias de saída em ordem (TP, SL, ratchet, trailing, tempo e customizadas)
+      // Cada estratégia vê o estado atualizado pelas vendas das anteriores
+      for (const strategy of exitStrategyRegistry.list()) {
+        const signals = this.evaluateStrategy(strategy, {
+          position: pos,
+          profile,
+          price: currentPrice,
+          multiple,
+          priceHistory: pos.priceHistory,
+          now: Date.now(),
+        });
+
+        for (const signal of signals) {
+          if (signal.type === 'arm') {
+            if (!pos.trailingStops?.[signal.stage]) {
+              stateService.activateTrailingStop(mint, signal.stage, signal.price);
+              logger.info(signal.reason);
+            }
             continue;
           }
 
-          // Calcular quanto vender baseado no percentual
-          let sellAmount: bigint;
-          if (stage.sellPercent >= 100) {
-            sellAmount = currentBalance.amount;
-          } else {
-            sellAmount = (currentBalance.amount * BigInt(stage.sellPercent)) / 100n;
-            if (sellAmount <= 0n) sellAmount = currentBalance.amount;
-          }
-
-          logger.success(
-            `${stage.name.toUpperCase()} atingido! ${multiple.toFixed(2)}x → Vendendo ${stage.sellPercent}%`
-          );
+          // Estágios com venda em partes em andamento são conduzidos pela retomada acima;
+          // venda sem confirmação aguarda a verificação na chain antes de poder disparar de novo
+          if (pos.sold?.[signal.stage] || pos.exitProgress?.[signal.stage] || this.hasPendingSell(mint, signal.stage)) continue;
 
-          const success = await this.sellToken(mint, sellAmount, ticker, stage.name);
-          if (success) {
-            stateService.markStageSold(mint, stage.name);
+          const finished = await this.executeExitSignal(mint, pos, profile, signal, ticker);
+          if (finished) {
+            await this.reclaimRent(mint);
+            return;
           }
         }
       }
+    }
+  }
 
-      // Verificar stop-losses se configurados
-      if (STOP_LOSSES.length > 0) {
-        for (const stopLoss of STOP_LOSSES) {
-          // Verificar se este stop-loss já foi executado
-          if (pos.sold?.[stopLoss.name as keyof typeof pos.sold]) continue;
-
-          // Verificar se o múltiplo atual atingiu o stop-loss
-          if (multiple <= stopLoss.multiple) {
-            // Buscar saldo atualizado antes de vender
-            const currentBalance = await solanaService.getTokenBalance(mint);
-
-            if (currentBalance.amount <= 0n) {
-              logger.warn(`Sem saldo para ${stopLoss.name}`);
-              stateService.markStageSold(mint, stopLoss.name);
-              continue;
-            }
+  /**
+   * Avalia uma estratégia isolando falhas (uma estratégia customizada com erro não derruba o monitor)
+   */
+  private evaluateStrategy(strategy: ExitStrategy, context: ExitContext): ExitSignal[] {
+    try {
+      return strategy.evaluate(context);
+    } catch (error) {
+      logger.error(`❌ Erro na estratégia de saída "${strategy.name}"`, error);
+      return [];
+    }
+  }
 
-            // Calcular quanto vender baseado no percentual
-            let sellAmount: bigint;
-            if (stopLoss.sellPercent >= 100) {
-              sellAmount = currentBalance.amount;
-            } else {
-              sellAmount = (currentBalance.amount * BigInt(stopLoss.sellPercent)) / 100n;
-              if (sellAmount <= 0n) sellAmount = currentBalance.amount;
-            }
+  /**
+   * Executa um sinal de venda de uma estratégia
+   * @returns true se o monitoramento deve ser finalizado (saída total)
+   */
+  private async executeExitSignal(
+    mint: string,
+    pos: Position,
+    profile: StrategyProfile,
+    signal: Extract<ExitSignal, { type: 'sell' }>,
+    ticker: string
+  ): Promise<boolean> {
+    // Buscar saldo atualizado antes de vender
+    const currentBalance = await solanaService.getTokenBalance(mint);
+
+    if (currentBalance.amount <= 0n) {
+      logger.warn(`Sem saldo para ${signal.stage}`);
+      stateService.markStageSold(mint, signal.stage);
+      return false;
+    }
 
-            logger.warn(
-              `🛡️ ${stopLoss.name.toUpperCase()} ativado! ${multiple.toFixed(2)}x (${percentChange}%) → Vendendo ${stopLoss.sellPercent}%`
-            );
+    // Calcular quanto vender baseado no percentual (preservando o moonbag)
+    const sellAmount = this.calculateSellAmount(mint, pos, currentBalance.amount, signal.sellPercent, signal.hardExit);
+    if (sellAmount <= 0n) {
+      logger.info(`🌙 ${signal.stage.toUpperCase()} ignorado - restou apenas o moonbag`);
+      stateService.markStageSold(mint, signal.stage);
+      return false;
+    }
 
-            const success = await this.sellToken(mint, sellAmount, ticker, stopLoss.name);
-            if (success) {
-              stateService.markStageSold(mint, stopLoss.name);
+    if (signal.kind === 'profit') {
+      logger.success(signal.reason);
+    } else {
+      logger.warn(signal.reason);
+    }
 
-              // Se vendeu 100% no stop-loss, finalizar monitoramento
-              if (stopLoss.sellPercent >= 100) {
-                logger.info(`${ticker} - Monitoramento finalizado (Stop-Loss total)`);
-                return;
-              }
-            }
-          }
-        }
+    const closesPosition = !!signal.closesPosition && signal.sellPercent >= 100;
+
+    // Take-profits com impacto de preço alto são vendidos em partes espaçadas
+    const chunks = signal.kind === 'profit'
+      ? await this.planSellChunks(mint, sellAmount, ticker, profile.slippageBps)
+      : 1;
+
+    let success: boolean;
+    if (chunks > 1) {
+      stateService.startExitProgress(mint, signal.stage, {
+        kind: signal.kind,
+        totalAmount: sellAmount.toString(),
+        soldAmount: '0',
+        chunks,
+        chunksSold: 0,
+        closesPosition,
+        startedAt: new Date().toISOString(),
+      });
+      success = await this.sellInChunks(mint, ticker, signal.stage, profile.slippageBps);
+    } else {
+      success = await this.sellWithRetry(mint, sellAmount, ticker, signal.stage, signal.kind, profile.slippageBps);
+    }
+    if (!success) return false;
+
+    // Saída total: finalizar monitoramento (exceto se um stop de saída forçada ainda pode vender o moonbag)
+    if (closesPosition && !this.hasPendingHardExit(pos, profile)) {
+      logger.info(`${ticker} - Monitoramento finalizado (${signal.stage.toUpperCase()} total)`);
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Quantidade de partes para a venda não passar do impacto de preço máximo
+   * O impacto é estimado como proporcional ao tamanho: impacto da venda inteira ÷ limite, até sellMaxChunks
+   * @returns 1 para venda única (impacto dentro do limite, recurso desativado ou sem cotação)
+   */
+  private async planSellChunks(mint: string, amountBaseUnits: bigint, ticker: string, slippageBps: number): Promise<number> {
+    const maxImpact = config.sellMaxImpactPercent;
+    if (maxImpact <= 0 || config.sellMaxChunks <= 1) return 1;
+
+    const quote = await jupiterService.getQuote({
+      inputMint: mint,
+      outputMint: config.solMint,
+      amountInt: amountBaseUnits.toString(),
+      slippageBps,
+    });
+    if (!quote) return 1;
+
+    const impact = Math.abs(Number(quote.priceImpactPct)) * 100;
+    if (!(impact > maxImpact)) return 1;
+
+    const chunks = Math.min(config.sellMaxChunks, Math.ceil(impact / maxImpact));
+    logger.warn(`🧱 ${ticker} - impacto de ${impact.toFixed(2)}% na venda inteira (limite ${maxImpact}%) - vendendo em ${chunks} partes`);
+    return chunks;
+  }
+
+  /**
+   * Envia a próxima parte de um estágio vendido em partes, se o intervalo desde a anterior já passou
+   * O monitor não espera o intervalo: volta ao loop de preço (stops continuam sendo avaliados) e as
+   * partes seguintes saem nos próximos ciclos, a partir de nextChunkAt.
+   * Cada parte confirmada é registrada na posição; o estágio só é marcado como vendido após a última.
+   * Se uma parte falhar, o progresso fica salvo e a venda é retomada no próximo ciclo.
+   * @returns true se o estágio foi vendido por completo
+   */
+  private async sellInChunks(mint: string, ticker: string, stage: string, slippageBps: number): Promise<boolean> {
+    const progress = stateService.getPosition(mint)?.exitProgress?.[stage];
+    if (!progress) return false;
+
+    if (this.hasChunksLeft(progress)) {
+      // Espaçar as partes (inclusive ao retomar após um reinício)
+      if (progress.nextChunkAt && Date.now() < new Date(progress.nextChunkAt).getTime()) {
+        return false;
       }
 
-      // Usar intervalo otimizado baseado no número de API keys válidas
-      const optimalInterval = jupiterService.getOptimalPriceCheckInterval();
-      await this.sleep(optimalInterval * 1000);
+      // A última parte leva o restante; nunca vender mais que o saldo atual
+      const remaining = BigInt(progress.totalAmount) - BigInt(progress.soldAmount);
+      const chunksLeft = progress.chunks - progress.chunksSold;
+      const balance = (await solanaService.getTokenBalance(mint)).amount;
+      let amount = chunksLeft === 1 ? remaining : remaining / BigInt(chunksLeft);
+      if (amount > balance) amount = balance;
+
+      if (amount > 0n) {
+        const chunkIndex = progress.chunksSold;
+        logger.info(`🧱 ${ticker} ${stage.toUpperCase()} - parte ${chunkIndex + 1}/${progress.chunks}`);
+
+        const sold = await this.sellWithRetry(mint, amount, ticker, stage, progress.kind, slippageBps, {
+          chunkIndex,
+          onSold: () => stateService.recordExitChunk(mint, stage, amount),
+        });
+        if (!sold || this.hasChunksLeft(progress)) return false;
+      }
+    }
+
+    stateService.markStageSold(mint, stage);
+    return true;
+  }
+
+  private hasChunksLeft(progress: ExitProgress): boolean {
+    return progress.chunksSold < progress.chunks && BigInt(progress.soldAmount) < BigInt(progress.totalAmount);
+  }
+
+  /**
+   * Executa as parcelas pendentes cujo gatilho foi atingido
+   * Parcelas são canceladas quando a posição começa a sair ou quando expiram
+   */
+  private async processTranches(mint: string, pos: Position, currentPrice: number, profile: StrategyProfile): Promise<void> {
+    const ticker = pos.ticker || mint.substring(0, 6);
+
+    // Não aumentar a posição depois que alguma saída (TP/SL/etc) foi executada
+    if (Object.values(pos.sold || {}).some(Boolean)) {
+      this.cancelPendingTranches(mint, 'saída iniciada');
+      return;
+    }
+
+    if (config.dcaExpireMs > 0 && Date.now() - new Date(pos.createdAt).getTime() >= config.dcaExpireMs) {
+      this.cancelPendingTranches(mint, 'expiradas');
+      return;
     }
+
+    const firstFillPrice = pos.tranches?.find(t => t.index === 0)?.fillPriceUsd ?? pos.entryUsd;
+
+    for (const tranche of pos.tranches || []) {
+      if (tranche.status !== 'pending') continue;
+
+      const due = tranche.trigger === 'time'
+        ? Date.now() >= new Date(tranche.executeAt || 0).getTime()
+        : !!firstFillPrice && currentPrice <= firstFillPrice * (1 - (tranche.dipPercent || 0) / 100);
+      if (!due) continue;
+
+      // Sem saldo acima da reserva a parcela continua pendente para o próximo ciclo
+      if (!(await this.hasBalanceForBuy(tranche.amountSol, ticker))) {
+        return;
+      }
+
+      const triggerText = tranche.trigger === 'time' ? 'horário atingido' : `queda de ${tranche.dipPercent}%`;
+      logger.info(`🧩 ${ticker} - parcela ${tranche.index + 1}/${pos.tranches!.length} (${triggerText}) → comprando ${tranche.amountSol} SOL`);
+
+      const journalId = journalService.begin({
+        side: 'buy',
+        mint,
+        ticker,
+        amountSol: tranche.amountSol,
+        profile: profile.name,
+        trancheIndex: tranche.index,
+      });
+      const bought = await this.buyToken(mint, ticker, {
+        amountSol: tranche.amountSol,
+        slippageBps: profile.slippageBps,
+        journalId,
+      });
+
+      if (bought) {
+        // Preço real da parcela pelo fill; sem fill, usa o preço de mercado do ciclo
+        const fillPrice = bought.fill ? await this.getFillPriceUsd(bought.fill) : null;
+        if (bought.fill) stateService.recordBuyFill(mint, bought.fill);
+        stateService.recordTrancheFill(mint, tranche.index, fillPrice ?? currentPrice);
+        journalService.complete(journalId);
+        logger.success(`🧩 ${ticker} - parcela ${tranche.index + 1} executada | entrada média: $${pos.entryUsd?.toFixed(6)} | total: ${pos.entryAmountSol} SOL`);
+      } else {
+        stateService.recordTrancheFailure(mint, tranche.index, MAX_TRANCHE_ATTEMPTS);
+      }
+    }
+  }
+
+  /**
+   * Calcula a quantidade a vender em uma saída, sem nunca tocar no moonbag
+   * O moonbag é reservado na primeira saída (MOONBAG_PERCENT% do saldo naquele momento);
+   * stop-losses com hardExit vendem sobre o saldo total, incluindo o moonbag
+   */
+  private calculateSellAmount(mint: string, pos: Position, balanceAmount: bigint, sellPercent: number, hardExit: boolean = false): bigint {
+    if (!hardExit && pos.moonbagAmount === undefined && config.moonbagPercent > 0) {
+      // Percentual em basis points para suportar valores fracionados (ex: 2.5%)
+      const moonbag = (balanceAmount * BigInt(Math.round(config.moonbagPercent * 100))) / 10000n;
+      stateService.setMoonbag(mint, moonbag);
+      logger.info(`🌙 ${pos.ticker || mint.substring(0, 6)} - moonbag de ${config.moonbagPercent}% reservado (${moonbag} unidades)`);
+    }
+
+    const moonbag = hardExit ? 0n : BigInt(pos.moonbagAmount || '0');
+    const sellable = balanceAmount - moonbag;
+    if (sellable <= 0n) return 0n;
+
+    if (sellPercent >= 100) return sellable;
+
+    const sellAmount = (sellable * BigInt(sellPercent)) / 100n;
+    return sellAmount > 0n ? sellAmount : sellable;
+  }
+
+  /**
+   * Existe algum stop-loss de saída forçada (hardExit) ainda não executado no perfil
+   */
+  private hasPendingHardExit(pos: Position, profile: StrategyProfile): boolean {
+    return profile.stopLosses.some(sl => sl.hardExit && !pos.sold?.[sl.name]);
+  }
+
+  /**
+   * Fecha a token account vazia de uma posição encerrada e registra o rent recuperado
+   * (contas com saldo, ex: moonbag, são mantidas)
+   */
+  private async reclaimRent(mint: string): Promise<void> {
+    if (!config.closeEmptyAccounts) return;
+
+    const result = await accountCleanupService.closeEmptyAccounts({ mints: [mint] });
+    if (result.reclaimedSol > 0) {
+      stateService.recordRentReclaimed(mint, result.reclaimedSol);
+      await this.refreshWalletBalance();
+    }
+  }
+
+  /**
+   * Posição encerrada: saldo zero e o último estágio de take-profit já executado,
+   * ou restou apenas o moonbag e nenhum stop-loss de saída forçada pode mais vendê-lo
+   */
+  private isFullyExited(pos: Position, profile: StrategyProfile, balanceAmount: bigint): boolean {
+    const finalStage = profile.stages[profile.stages.length - 1];
+    if (balanceAmount === 0n && !!finalStage && !!pos.sold?.[finalStage.name]) {
+      return true;
+    }
+
+    const moonbag = BigInt(pos.moonbagAmount || '0');
+    return moonbag > 0n && balanceAmount > 0n && balanceAmount <= moonbag && !this.hasPendingHardExit(pos, profile);
   }
 
   private sleep(ms: number): Promise<void> {
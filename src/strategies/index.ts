@@ -0,0 +1,80 @@
+import { resolve } from 'path';
+import { pathToFileURL } from 'url';
+import type { ExitStrategy } from '../types';
+import { configManager } from '../config/config-manager';
+import { logger } from '../utils/logger';
+import { TakeProfitStrategy } from './take-profit.strategy';
+import { StopLossStrategy } from './stop-loss.strategy';
+import { StopRatchetStrategy } from './stop-ratchet.strategy';
+import { TrailingStopStrategy } from './trailing-stop.strategy';
+import { TimeExitStrategy } from './time-exit.strategy';
+
+export { TakeProfitStrategy, StopLossStrategy, StopRatchetStrategy, TrailingStopStrategy, TimeExitStrategy };
+
+/**
+ * Registro das estratégias de saída avaliadas pelo monitor de posições
+ * As estratégias são avaliadas na ordem de registro: TP, SL, ratchet, trailing, tempo
+ * e depois as customizadas (EXIT_STRATEGY_MODULES ou register())
+ */
+class ExitStrategyRegistry {
+  private strategies: ExitStrategy[] = [];
+
+  constructor() {
+    // Níveis lidos do ConfigManager a cada avaliação para refletir mudanças em runtime
+    this.register(new TakeProfitStrategy());
+    this.register(new StopLossStrategy(() => configManager.config.stopLossConfirmTicks));
+    this.register(new StopRatchetStrategy(() => configManager.stopRatchets));
+    this.register(new TrailingStopStrategy(() => configManager.trailingStops));
+    this.register(new TimeExitStrategy(() => configManager.timeExits));
+  }
+
+  /**
+   * Registra uma estratégia de saída (nomes devem ser únicos)
+   */
+  register(strategy: ExitStrategy): void {
+    if (!strategy || typeof strategy.name !== 'string' || typeof strategy.evaluate !== 'function') {
+      throw new Error('❌ Estratégia de saída inválida: precisa de name e evaluate()');
+    }
+    if (this.strategies.some(s => s.name === strategy.name)) {
+      throw new Error(`❌ Estratégia de saída "${strategy.name}" já registrada`);
+    }
+    this.strategies.push(strategy);
+  }
+
+  /**
+   * Remove uma estratégia pelo nome (inclusive as embutidas)
+   */
+  unregister(name: string): boolean {
+    const before = this.strategies.length;
+    this.strategies = this.strategies.filter(s => s.name !== name);
+    return this.strategies.length < before;
+  }
+
+  list(): ExitStrategy[] {
+    return [...this.strategies];
+  }
+
+  /**
+   * Importa e registra as estratégias dos módulos em EXIT_STRATEGY_MODULES
+   * Cada módulo deve exportar (default ou `strategies`) uma estratégia ou um array delas
+   */
+  async loadModules(modulePaths: string[] = configManager.config.exitStrategyModules): Promise<void> {
+    for (const modulePath of modulePaths) {
+      const url = pathToFileURL(resolve(process.cwd(), modulePath)).href;
+      const loaded = await import(url);
+      const exported = loaded.default ?? loaded.strategies;
+
+      if (!exported) {
+        throw new Error(`❌ Módulo de estratégia ${modulePath} não exporta default nem strategies`);
+      }
+
+      const strategies: ExitStrategy[] = Array.isArray(exported) ? exported : [exported];
+      for (const strategy of strategies) {
+        this.register(strategy);
+        logger.info(`🧩 Estratégia de saída "${strategy.name}" carregada de ${modulePath}`);
+      }
+    }
+  }
+}
+
+export const exitStrategyRegistry = new ExitStrategyRegistry();
@@ -0,0 +1,45 @@
+import type { ExitContext, ExitSignal, ExitStrategy } from '../types';
+
+/**
+ * Stop-loss fixo: vende sellPercent% quando o múltiplo cai até o nível do perfil
+ * Níveis com hardExit vendem também o moonbag
+ * Com getConfirmTicks > 1 o nível precisa se manter nos últimos N ticks do priceHistory
+ * (que já inclui o tick atual) antes de disparar
+ */
+export class StopLossStrategy implements ExitStrategy {
+  public readonly name = 'stop-loss';
+
+  constructor(private readonly getConfirmTicks: () => number = () => 1) {}
+
+  evaluate({ position, profile, multiple, priceHistory }: ExitContext): ExitSignal[] {
+    const signals: ExitSignal[] = [];
+    const percentChange = ((multiple - 1) * 100).toFixed(2);
+    const confirmTicks = this.getConfirmTicks();
+    const recent = priceHistory.slice(-confirmTicks);
+    const confirmText = confirmTicks > 1 ? ` por ${confirmTicks} ticks` : '';
+
+    for (const stopLoss of profile.stopLosses) {
+      if (position.sold?.[stopLoss.name]) continue;
+      if (multiple > stopLoss.multiple) continue;
+
+      // Confirmação: todos os últimos N ticks abaixo do nível (um tick isolado não dispara)
+      if (confirmTicks > 1) {
+        const held = recent.length >= confirmTicks && !!position.entryUsd &&
+          recent.every(tick => tick.price / position.entryUsd! <= stopLoss.multiple);
+        if (!held) continue;
+      }
+
+      signals.push({
+        type: 'sell',
+        stage: stopLoss.name,
+        sellPercent: stopLoss.sellPercent,
+        kind: 'protection',
+        hardExit: stopLoss.hardExit,
+        closesPosition: stopLoss.sellPercent >= 100,
+        reason: `🛡️ ${stopLoss.name.toUpperCase()} ativado! ${multiple.toFixed(2)}x (${percentChange}%)${confirmText} → Vendendo ${stopLoss.sellPercent}%`,
+      });
+    }
+
+    return signals;
+  }
+}
@@ -0,0 +1,34 @@
+import type { ExitContext, ExitSignal, ExitStrategy, StopRatchet } from '../types';
+
+/**
+ * Ratchet de stop: depois que o estágio afterStage foi vendido, vende se o múltiplo
+ * voltar ao nível travado (1x = break-even, 2x...)
+ */
+export class StopRatchetStrategy implements ExitStrategy {
+  public readonly name = 'stop-ratchet';
+
+  constructor(private readonly getRatchets: () => StopRatchet[]) {}
+
+  evaluate({ position, multiple }: ExitContext): ExitSignal[] {
+    const signals: ExitSignal[] = [];
+
+    for (const ratchet of this.getRatchets()) {
+      if (position.sold?.[ratchet.name]) continue;
+
+      // Ratchet só vale depois que o estágio associado foi vendido
+      if (!position.sold?.[ratchet.afterStage]) continue;
+      if (multiple > ratchet.multiple) continue;
+
+      signals.push({
+        type: 'sell',
+        stage: ratchet.name,
+        sellPercent: ratchet.sellPercent,
+        kind: 'protection',
+        closesPosition: ratchet.sellPercent >= 100,
+        reason: `🪜 ${ratchet.name.toUpperCase()} ativado! ${multiple.toFixed(2)}x ≤ ${ratchet.multiple}x (travado após ${ratchet.afterStage.toUpperCase()}) → Vendendo ${ratchet.sellPercent}%`,
+      });
+    }
+
+    return signals;
+  }
+}
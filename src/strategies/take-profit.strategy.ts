@@ -0,0 +1,28 @@
+import type { ExitContext, ExitSignal, ExitStrategy } from '../types';
+
+/**
+ * Take-profit em escada: vende sellPercent% ao atingir cada múltiplo dos estágios do perfil
+ * O último estágio é o que marca a saída completa da posição
+ */
+export class TakeProfitStrategy implements ExitStrategy {
+  public readonly name = 'take-profit';
+
+  evaluate({ position, profile, multiple }: ExitContext): ExitSignal[] {
+    const signals: ExitSignal[] = [];
+
+    for (const stage of profile.stages) {
+      if (position.sold?.[stage.name]) continue;
+      if (multiple < stage.multiple) continue;
+
+      signals.push({
+        type: 'sell',
+        stage: stage.name,
+        sellPercent: stage.sellPercent,
+        kind: 'profit',
+        reason: `${stage.name.toUpperCase()} atingido! ${multiple.toFixed(2)}x → Vendendo ${stage.sellPercent}%`,
+      });
+    }
+
+    return signals;
+  }
+}
@@ -0,0 +1,37 @@
+import type { ExitContext, ExitSignal, ExitStrategy, TimeExit } from '../types';
+
+/**
+ * Saída por tempo: vende posições paradas depois de afterMinutes desde a criação
+ * (ou desde a reativação de uma posição pausada), opcionalmente só se o múltiplo
+ * ainda estiver abaixo de maxMultiple
+ */
+export class TimeExitStrategy implements ExitStrategy {
+  public readonly name = 'time-exit';
+
+  constructor(private readonly getTimeExits: () => TimeExit[]) {}
+
+  evaluate({ position, multiple, now }: ExitContext): ExitSignal[] {
+    const signals: ExitSignal[] = [];
+    const ageMinutes = (now - new Date(position.monitorStartedAt ?? position.createdAt).getTime()) / 60000;
+
+    for (const timeExit of this.getTimeExits()) {
+      if (position.sold?.[timeExit.name]) continue;
+      if (ageMinutes < timeExit.afterMinutes) continue;
+
+      // Se houver múltiplo máximo, só vende se ainda estiver abaixo dele
+      if (timeExit.maxMultiple !== undefined && multiple >= timeExit.maxMultiple) continue;
+
+      const condition = timeExit.maxMultiple !== undefined ? ` abaixo de ${timeExit.maxMultiple}x` : '';
+      signals.push({
+        type: 'sell',
+        stage: timeExit.name,
+        sellPercent: timeExit.sellPercent,
+        kind: 'protection',
+        closesPosition: timeExit.sellPercent >= 100,
+        reason: `⌛ ${timeExit.name.toUpperCase()} ativado! ${Math.floor(ageMinutes)}min${condition} (${multiple.toFixed(2)}x) → Vendendo ${timeExit.sellPercent}%`,
+      });
+    }
+
+    return signals;
+  }
+}
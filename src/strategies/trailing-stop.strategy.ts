@@ -0,0 +1,47 @@
+import type { ExitContext, ExitSignal, ExitStrategy, TrailingStop } from '../types';
+
+/**
+ * Trailing stop: arma quando o maior múltiplo atinge activationMultiple e vende
+ * quando o preço cai dropPercent% a partir do topo
+ */
+export class TrailingStopStrategy implements ExitStrategy {
+  public readonly name = 'trailing-stop';
+
+  constructor(private readonly getTrailingStops: () => TrailingStop[]) {}
+
+  evaluate({ position, price, multiple }: ExitContext): ExitSignal[] {
+    const signals: ExitSignal[] = [];
+    const highestPrice = position.highestPrice || price;
+    const highestMultiple = position.highestMultiple || multiple;
+
+    for (const trailingStop of this.getTrailingStops()) {
+      if (position.sold?.[trailingStop.name]) continue;
+      if (highestMultiple < trailingStop.activationMultiple) continue;
+
+      if (!position.trailingStops?.[trailingStop.name]) {
+        signals.push({
+          type: 'arm',
+          stage: trailingStop.name,
+          price: highestPrice,
+          reason: `📐 ${trailingStop.name.toUpperCase()} armado em ${highestMultiple.toFixed(2)}x (dispara com -${trailingStop.dropPercent}% do topo)`,
+        });
+      }
+
+      // Verificar se o preço caiu o suficiente a partir do topo
+      const triggerPrice = highestPrice * (1 - trailingStop.dropPercent / 100);
+      if (price > triggerPrice) continue;
+
+      const dropFromTop = ((1 - price / highestPrice) * 100).toFixed(2);
+      signals.push({
+        type: 'sell',
+        stage: trailingStop.name,
+        sellPercent: trailingStop.sellPercent,
+        kind: 'protection',
+        closesPosition: trailingStop.sellPercent >= 100,
+        reason: `📐 ${trailingStop.name.toUpperCase()} ativado! ${multiple.toFixed(2)}x (-${dropFromTop}% do topo ${highestMultiple.toFixed(2)}x) → Vendendo ${trailingStop.sellPercent}%`,
+      });
+    }
+
+    return signals;
+  }
+}
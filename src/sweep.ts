@@ -0,0 +1,40 @@
+import 'dotenv/config';
+import { accountCleanupService } from './services/account-cleanup.service';
+import { journalService } from './services/journal.service';
+import { stateService } from './services/state.service';
+
+/**
+ * Varredura sob demanda: fecha todas as token accounts vazias da wallet e mostra o rent recuperado
+ * Inclui as contas de posições já encerradas; só ficam de fora os mints com uma compra que ainda
+ * pode estar em andamento (parcelas pendentes ou entrada aberta no journal)
+ * Uso: bun run sweep
+ */
+async function sweep(): Promise<void> {
+  const pendingTranches = Object.entries(stateService.getAllPositions())
+    .filter(([, position]) => position.tranches?.some(t => t.status === 'pending'))
+    .map(([mint]) => mint);
+  const openJournal = journalService.getOpenEntries().map(entry => entry.mint);
+  const excludeMints = [...new Set([...pendingTranches, ...openJournal])];
+
+  console.log('♻️ Procurando token accounts vazias...');
+  const result = await accountCleanupService.closeEmptyAccounts({ excludeMints });
+
+  if (result.closed === 0 && result.failed === 0) {
+    console.log('✅ Nenhuma token account vazia encontrada');
+    return;
+  }
+
+  console.log(`✅ Contas fechadas: ${result.closed}`);
+  console.log(`💰 Rent recuperado: ${result.reclaimedSol.toFixed(6)} SOL`);
+  if (result.failed > 0) {
+    console.log(`⚠️ Contas não fechadas: ${result.failed} (tente novamente)`);
+  }
+  for (const signature of result.signatures) {
+    console.log(`   🔗 ${signature}`);
+  }
+}
+
+sweep().catch((error) => {
+  console.error('❌ Erro na varredura:', error);
+  process.exit(1);
+});
@@ -1,3 +1,17 @@
+export type SizingMode = 'fixed' | 'percent' | 'score';
+
+export type DcaMode = 'time' | 'dip';
+
+export type TxCommitment = 'confirmed' | 'finalized';
+
+export type EntryMode = 'delay' | 'dip';
+
+// Fontes de preço embutidas (PRICE_PROVIDERS define a ordem de prioridade)
+export type PriceProviderName = 'jupiter' | 'pool' | 'quote';
+
+// Como confirmar um tick fora da curva: nova leitura pelas fontes ou cotação do Jupiter
+export type PriceConfirmSource = 'read' | 'quote';
+
 export interface Config {
   siteUrl: string;
   baseUrl: string;
@@ -6,14 +20,94 @@ export interface Config {
   jupApiKey: string;
   jupApiKeys: string[]; // Array de múltiplas API keys para rotação
   rpcUrl: string;
+  rpcWsUrl: string; // Endpoint websocket das assinaturas de conta (vazio = derivado do rpcUrl)
   amountSol: number;
   slippageBps: number;
+  solReserveSol: number; // SOL que as compras nunca gastam (reservado para as taxas das vendas)
+  solReserveWarnSol: number; // Alerta no status quando o saldo fica a menos disso acima da reserva
   checkIntervalMs: number;
   priceCheckSeconds: number;
+  priceProviders: PriceProviderName[]; // Fontes de preço em ordem de prioridade (failover automático)
+  priceMaxJumpPercent: number; // Salto máximo vs preços recentes sem confirmação (0 = desativado)
+  priceConfirmSource: PriceConfirmSource; // Segunda leitura que confirma (ou rejeita) um salto
+  priceMaxRejections: number; // Rejeições seguidas na mesma direção após as quais o tick é aceito
+  stopLossConfirmTicks: number; // Ticks consecutivos abaixo do nível para disparar um stop-loss
   headless: boolean;
   stateFile: string;
+  journalFile: string; // Journal de trades (write-ahead) usado para reconciliar após quedas
+  paperTrading: boolean; // Simula os trades em uma carteira virtual (nenhuma transação é enviada)
+  paperStartingSol: number; // Saldo inicial de SOL da carteira virtual
+  paperSlippageBps: number; // Slippage modelado aplicado sobre a cotação no fill simulado
+  paperFeeSol: number; // Taxa simulada por trade (rede + priority fee)
+  paperWalletFile: string;
   minScore: number;
   buyDelayMs: number; // Delay em milissegundos antes de executar a compra
+  sizingMode: SizingMode; // fixed = amountSol do perfil, percent = % do saldo, score = ponderado pelo score
+  sizingPercent: number; // % do saldo de SOL da wallet (modo percent)
+  sizingScoreReference: number; // Score que compra exatamente o amountSol do perfil (modo score)
+  sizingMinSol: number; // Tamanho mínimo da compra (0 = sem mínimo)
+  sizingMaxSol: number; // Tamanho máximo da compra (0 = sem máximo)
+  dcaTranches: number; // Quantidade de parcelas da entrada (1 = compra única)
+  dcaMode: DcaMode; // time = parcelas espaçadas no tempo, dip = parcelas só em quedas abaixo da 1ª compra
+  dcaIntervalMs: number; // Intervalo entre parcelas (modo time)
+  dcaDipPercent: number; // Queda (%) abaixo da 1ª compra para cada parcela seguinte (modo dip)
+  dcaExpireMs: number; // Cancela parcelas não executadas após este tempo (0 = nunca)
+  entryMode: EntryMode; // delay = compra após buyDelayMs, dip = compra só após pullback
+  dipEntryPercent: number; // Queda (%) a partir do topo pós-descoberta que dispara a compra
+  dipEntryWindowMs: number; // Janela de observação; sem pullback até o fim, a compra é descartada
+  moonbagPercent: number; // % da posição reservada na 1ª saída que os estágios nunca vendem (0 = desativado)
+  exitStrategyModules: string[]; // Módulos TypeScript com estratégias de saída customizadas (lidos na inicialização)
+  txCommitment: TxCommitment; // Nível de confirmação exigido para considerar um swap concluído
+  txConfirmTimeoutMs: number; // Tempo máximo aguardando confirmação de uma transação
+  txMaxResends: number; // Novas cotações + reenvios quando a transação expira sem entrar na chain
+  swapFallbackEnabled: boolean; // Usa quote + swap (transação montada pelo bot) quando o Ultra falha
+  closeEmptyAccounts: boolean; // Fecha a token account vazia ao encerrar a posição (recupera o rent)
+  balanceCacheEnabled: boolean; // Saldos da wallet em cache, atualizados por assinaturas websocket
+  balanceRefreshMs: number; // Releitura completa dos saldos via RPC (corrige notificações perdidas)
+  buyPriorityFee: PriorityFeeConfig; // Priority fee e compute units das compras
+  sellPriorityFee: PriorityFeeConfig; // Priority fee e compute units das vendas
+  safetyCheckEnabled: boolean; // Checagem de vendabilidade/honeypot antes de comprar
+  safetyMaxRoundTripLossPercent: number; // Perda máxima na ida e volta SOL → token → SOL (cotação)
+  safetyMaxPriceImpactPercent: number; // Impacto de preço máximo na compra ou na venda cotada
+  safetyAllowFreezeAuthority: boolean; // Aceitar tokens com freeze authority ativa
+  safetyAllowMintAuthority: boolean; // Aceitar tokens com mint authority ativa
+  safetyMaxTransferFeeBps: number; // Transfer fee máximo (Token-2022) em basis points
+  tpSellRetry: SellRetryPolicy; // Retentativas de vendas de take-profit
+  slSellRetry: SellRetryPolicy; // Retentativas de vendas de proteção (SL, ratchet, trailing, tempo)
+  sellMaxImpactPercent: number; // Impacto de preço acima do qual take-profits são vendidos em partes (0 = nunca dividir)
+  sellMaxChunks: number; // Máximo de partes por venda
+  sellChunkIntervalMs: number; // Espera entre as partes
+}
+
+/**
+ * Política de retentativa de vendas: a cada tentativa o slippage sobe slippageStepBps
+ * (a partir do slippage do perfil) até maxSlippageBps, esperando backoffMs × tentativa entre elas
+ */
+export interface SellRetryPolicy {
+  maxAttempts: number;
+  slippageStepBps: number;
+  maxSlippageBps: number;
+  backoffMs: number;
+}
+
+/**
+ * jupiter: mantém o priority fee definido pela transação do Jupiter
+ * fixed: usa microLamports
+ * percentile: percentil das taxas de priorização recentes das contas do swap
+ */
+export type PriorityFeeMode = 'jupiter' | 'fixed' | 'percentile';
+
+export type TradeSide = 'buy' | 'sell';
+
+// Rota de execução do swap: Jupiter Ultra (order/execute) ou quote + swap (fallback)
+export type SwapRoute = 'ultra' | 'swap';
+
+export interface PriorityFeeConfig {
+  mode: PriorityFeeMode;
+  microLamports: number; // Preço por compute unit no modo fixed
+  percentile: number; // 0-100, usado no modo percentile
+  maxMicroLamports: number; // Teto aplicado em qualquer modo (0 = sem teto)
+  computeUnitLimit: number; // Limite de compute units (0 = mantém o da transação)
 }
 
 export interface Stage {
@@ -26,6 +120,59 @@ export interface StopLoss {
   name: string;
   multiple: number; // Valores abaixo de 1 (0.8 = -20%, 0.6 = -40%)
   sellPercent: number; // 50 = 50%, 100 = 100%
+  hardExit?: boolean; // Saída forçada: também vende o moonbag
+}
+
+export interface StrategyProfile {
+  name: string;
+  minScore: number; // Score mínimo do token (inclusivo)
+  maxScore: number; // Score máximo do token (inclusivo)
+  amountSol: number; // SOL gasto na compra
+  slippageBps: number; // Slippage das ordens deste perfil
+  stages: Stage[]; // Escada de take-profit
+  stopLosses: StopLoss[]; // Escada de stop-loss
+}
+
+export interface TrailingStop {
+  name: string;
+  activationMultiple: number; // Múltiplo (sobre a entrada) que arma o trailing (3 = ativa após 3x)
+  dropPercent: number; // Queda em % a partir do topo que dispara a venda (30 = -30% do maior preço)
+  sellPercent: number; // 50 = 50%, 100 = 100%
+}
+
+export interface StopRatchet {
+  name: string;
+  afterStage: string; // Nome do estágio (ex: 'tp1') que ativa este stop
+  multiple: number; // Novo stop sobre a entrada (1 = break-even, 2 = trava 2x)
+  sellPercent: number; // 50 = 50%, 100 = 100%
+}
+
+export interface TimeExit {
+  name: string;
+  afterMinutes: number; // Minutos desde o início do monitoramento (monitorStartedAt ou createdAt)
+  maxMultiple?: number; // Só vende se o múltiplo atual estiver abaixo deste valor (sem valor = vende sempre)
+  sellPercent: number; // 50 = 50%, 100 = 100%
+}
+
+export type TrancheStatus = 'pending' | 'filled' | 'cancelled' | 'failed';
+
+export interface Tranche {
+  index: number; // 0 = primeira compra
+  amountSol: number; // SOL planejado para esta parcela
+  status: TrancheStatus;
+  trigger: DcaMode;
+  executeAt?: string; // Quando executar (modo time)
+  dipPercent?: number; // Queda abaixo da 1ª compra que dispara esta parcela (modo dip)
+  attempts: number; // Tentativas de compra já feitas
+  filledAt?: string;
+  fillPriceUsd?: number; // Preço de execução da parcela
+  cancelledAt?: string;
+  cancelReason?: string;
+}
+
+export interface TrailingStopState {
+  activatedAt: string; // Quando o trailing foi armado
+  activationPrice: number; // Maior preço no momento em que foi armado
 }
 
 export interface TokenInfo {
@@ -38,6 +185,7 @@ export interface PriceHistory {
   timestamp: string;
   price: number;
   multiple: number;
+  source?: string; // Fonte que forneceu o preço (jupiter, pool, quote...)
 }
 
 export interface Position {
@@ -46,54 +194,283 @@ export interface Position {
   entryUsd: number | null;
   entryAmountSol: number;
   currentPrice: number | null;
+  priceSource?: string; // Fonte do último preço recebido
   highestPrice: number | null;
   lowestPrice: number | null; // Novo: menor preço atingido
   highestMultiple: number | null;
   lowestMultiple: number | null; // Novo: menor múltiplo atingido
+  profile?: string; // Nome do perfil de estratégia escolhido na compra
   createdAt: string;
+  monitorStartedAt?: string; // Início do ciclo atual da posição (reativação); base das saídas por tempo
   lastUpdated: string;
-  sold: {
-    tp1?: boolean;
-    tp2?: boolean;
-    tp3?: boolean;
-    tp4?: boolean;
-    sl1?: boolean; // Stop-loss executados
-    sl2?: boolean;
-    sl3?: boolean;
-    sl4?: boolean;
-    sl5?: boolean;
-  };
+  sold: Record<string, boolean>; // Níveis executados por nome (tp1, sl2, ts1, rs1, te1...)
+  trailingStops?: Record<string, TrailingStopState>; // Trailing stops armados (por nome)
+  moonbagAmount?: string; // Moonbag reservado na 1ª saída (unidades base, bigint serializado)
+  costBasisSol?: number; // SOL gasto nas compras segundo os fills on-chain (swap + taxas)
+  tokensBought?: string; // Tokens recebidos nas compras (unidades base, bigint serializado)
+  sells?: SellRecord[]; // Vendas executadas com o SOL recebido e o PnL realizado
+  realizedPnlSol?: number; // Soma do PnL realizado das vendas
+  sellAttempts?: SellAttemptLog[]; // Histórico de tentativas de venda por estágio (últimas 50)
+  rentReclaimedSol?: number; // Rent recuperado ao fechar a token account após a saída
+  exitProgress?: Record<string, ExitProgress>; // Vendas em partes ainda não concluídas (por estágio)
+  tranches?: Tranche[]; // Parcelas da entrada (DCA); entryUsd é a média ponderada das executadas
   priceHistory: PriceHistory[];
   paused?: boolean; // Indica se o monitoramento está pausado (saldo = 0)
   pausedAt?: string; // Timestamp quando foi pausado
 }
 
+/**
+ * Dados que uma estratégia de saída recebe a cada ciclo de monitoramento
+ * Não depende de RPC nem do Jupiter: tudo que a estratégia precisa vem aqui
+ */
+export interface ExitContext {
+  position: Position;
+  profile: StrategyProfile;
+  price: number; // Preço atual em USD
+  multiple: number; // price / entryUsd
+  priceHistory: PriceHistory[];
+  now: number; // Timestamp (ms) da avaliação
+}
+
+/**
+ * Sinal devolvido por uma estratégia de saída
+ * sell: vender sellPercent% do saldo vendável e registrar o nível em sold
+ * arm: registrar que um nível foi armado (ex: trailing stop), sem vender
+ */
+export type ExitSignal =
+  | {
+      type: 'sell';
+      stage: string; // Nome do nível, registrado em position.sold (deve ser único entre estratégias)
+      sellPercent: number;
+      reason: string;
+      kind: 'profit' | 'protection'; // profit = take-profit, protection = stops e demais saídas
+      hardExit?: boolean; // Vende também o moonbag
+      closesPosition?: boolean; // Encerra o monitoramento após uma venda bem-sucedida
+    }
+  | {
+      type: 'arm';
+      stage: string;
+      price: number; // Preço de referência no momento em que foi armado
+      reason: string;
+    };
+
+export interface ExitStrategy {
+  name: string;
+  evaluate(context: ExitContext): ExitSignal[];
+}
+
+/**
+ * Fonte de preço em USD consultada pelo poller central
+ * Recebe os mints ainda sem preço no ciclo (no máximo 50 por chamada) e devolve os que conseguiu
+ * precificar; mints ausentes do mapa passam para a próxima fonte. Erros também fazem o failover.
+ */
+export interface PriceProvider {
+  name: string;
+  getPrices(mints: string[]): Promise<Map<string, number>>;
+}
+
+// Preço de um ciclo com a fonte que o forneceu
+export interface PriceTick {
+  price: number;
+  source: string;
+}
+
+export interface SkippedToken {
+  ticker: string;
+  reason: string;
+  skippedAt: string;
+}
+
 export interface State {
   seen: Record<string, boolean>;
   positions: Record<string, Position>;
+  skipped?: Record<string, SkippedToken>; // Tokens vistos mas não comprados (ex: reprovados na checagem de segurança)
+}
+
+/**
+ * Ciclo de uma entrada do journal:
+ * intent (antes de cotar) → signed (assinatura conhecida, antes do envio) → confirmed (on-chain)
+ * → completed (state.json atualizado) | failed
+ */
+export type JournalStatus = 'intent' | 'signed' | 'confirmed' | 'completed' | 'failed';
+
+// Ordem do Jupiter que gerou uma transação (valores em unidades base, como retornados pela API)
+export interface TradeOrder {
+  mode?: UltraOrderResponse['mode'];
+  route?: SwapRoute;
+  requestId?: string;
+  inAmount?: string;
+  outAmount?: string; // Saída cotada, antes do slippage
+  slippageBps?: number;
+  priceImpactPct?: string; // Fração (0.05 = 5%)
+}
+
+export interface JournalOrder extends TradeOrder {
+  signature: string;
+  signedAt: string;
+}
+
+export interface JournalEntry {
+  id: string;
+  side: TradeSide;
+  mint: string;
+  ticker: string;
+  status: JournalStatus;
+  signatures: string[]; // Todas as assinaturas enviadas (reenvios após expiração geram novas)
+  confirmedSignature?: string;
+  amountSol?: number; // Compras: SOL gasto
+  amountTokens?: string; // Vendas: tokens vendidos (unidades base)
+  profile?: string; // Compras: perfil para recriar a posição
+  entrySol?: number; // Compras: valor total da entrada dividida em parcelas (DCA), para recriar as pendentes
+  trancheIndex?: number; // Compras de parcelas (DCA)
+  stage?: string; // Vendas: nível que disparou a venda
+  chunkIndex?: number; // Vendas em partes: índice da parte (0 = primeira)
+  orders?: JournalOrder[]; // Ordem do Jupiter de cada transação assinada (reenvios geram novas)
+  note?: string; // Motivo da falha ou observação da reconciliação
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SafetyCheckResult {
+  ok: boolean;
+  reasons: string[]; // Motivos da reprovação (vazio quando ok)
+  inconclusive: string[]; // Checagens que não puderam rodar (RPC/API com erro, token ainda sem rota)
+  roundTripLossPercent?: number;
+  priceImpactPercent?: number;
+  freezeAuthority?: string | null;
+  mintAuthority?: string | null;
+  transferFeeBps?: number;
+}
+
+/**
+ * Resultado real de um swap, extraído da transação confirmada (saldos pré/pós)
+ */
+export interface TradeFill {
+  signature: string;
+  solAmount: number; // SOL trocado no swap (sem taxa de rede nem rent de contas), sempre positivo
+  feeSol: number; // Taxa da transação paga pela wallet
+  tokenAmount: string; // Tokens recebidos/enviados (unidades base, bigint serializado), sempre positivo
+  decimals: number;
+}
+
+export interface TradeResult {
+  signature: string;
+  fill: TradeFill | null; // null quando a transação confirmada não pôde ser lida
+}
+
+export interface SellAttempt {
+  attempt: number;
+  slippageBps: number;
+  ok: boolean;
+  step?: string; // Etapa em que falhou (order_http, confirm_failed...)
+  signature?: string;
+  at: string;
+}
+
+// Venda de um estágio dividida em partes por causa do impacto de preço (retomada após reinício)
+export interface ExitProgress {
+  kind: 'profit' | 'protection';
+  totalAmount: string; // Tokens do estágio no início da venda (unidades base)
+  soldAmount: string; // Tokens já vendidos pelas partes confirmadas
+  chunks: number; // Partes planejadas
+  chunksSold: number;
+  closesPosition: boolean; // A última parte encerra o monitoramento
+  startedAt: string;
+  lastChunkAt?: string;
+  nextChunkAt?: string; // A próxima parte só é enviada a partir deste horário (SELL_CHUNK_INTERVAL_MS)
+}
+
+export interface SellAttemptLog {
+  stage: string;
+  kind: 'profit' | 'protection';
+  startedAt: string;
+  finishedAt: string;
+  outcome: 'sold' | 'failed' | 'unknown'; // unknown: confirmação esgotou o tempo (sem novas tentativas)
+  attempts: SellAttempt[];
+}
+
+export interface SellRecord {
+  stage: string;
+  signature: string;
+  timestamp: string;
+  tokensSold: string; // Unidades base
+  solReceived: number; // SOL líquido recebido (já descontada a taxa)
+  costBasisSol: number | null; // Parte do custo de entrada correspondente aos tokens vendidos
+  pnlSol: number | null; // solReceived - costBasisSol (null sem fill de compra)
 }
 
 export interface TokenBalance {
   ata: string;
   amount: bigint;
   decimals: number;
+  programId?: string; // Token Program ou Token-2022 (presente quando lido de getAllTokenAccounts)
+  lamports?: number; // Rent depositado na token account
+}
+
+// Resultado do fechamento de token accounts vazias
+export interface RentReclaimResult {
+  closed: number;
+  failed: number;
+  reclaimedSol: number;
+  signatures: string[];
+}
+
+// Carteira virtual do modo paper trading (paper-wallet.json)
+export interface PaperWallet {
+  sol: number;
+  tokens: Record<string, { amount: string; decimals: number }>; // Saldos por mint (unidades base)
+  fills: Record<string, TradeFill>; // Fills simulados por assinatura
+  createdAt: string;
+  updatedAt: string;
 }
 
 export interface UltraOrderParams {
   inputMint: string;
   outputMint: string;
   amountInt: string;
+  slippageBps?: number; // Sobrescreve config.slippageBps (ex: slippage do perfil)
+}
+
+/**
+ * Resultado final de uma transação enviada
+ * expired: o blockhash expirou sem a transação entrar na chain (seguro reenviar)
+ * timeout: não foi possível determinar o resultado dentro de txConfirmTimeoutMs (não reenviar)
+ */
+export type ConfirmationStatus = TxCommitment | 'failed' | 'expired' | 'timeout';
+
+export interface TransactionConfirmation {
+  signature: string;
+  status: ConfirmationStatus;
+  slot?: number;
+  error?: string; // Erro on-chain (status failed)
 }
 
 export interface UltraOrderResponse {
-  ok: boolean;
+  ok: boolean; // true somente se a transação foi confirmada on-chain sem erro
   signature?: string;
-  mode?: 'direct_tx' | 'execute_tx';
+  mode?: 'direct_tx' | 'execute_tx' | 'swap_tx' | 'paper';
+  route?: SwapRoute; // Rota que gerou a transação executada
   requestId?: string;
   step?: string;
+  confirmation?: ConfirmationStatus;
+  attempts?: number; // Quantidade de envios (1 + reenvios após expiração)
+  priorityFeeMicroLamports?: number; // Priority fee aplicado pelo bot (ausente = definido pelo Jupiter)
   raw?: any;
 }
 
+export interface JupiterQuoteResponse {
+  inAmount: string;
+  outAmount: string;
+  priceImpactPct: string; // Fração (0.05 = 5%)
+  [key: string]: any;
+}
+
+// Resultado de uma cotação: noRoute distingue "sem rota" (resposta válida) de falha na requisição
+export interface QuoteResult {
+  quote: JupiterQuoteResponse | null;
+  noRoute: boolean;
+}
+
 export interface JupiterPriceResponse {
   [mint: string]: {
     usdPrice?: number;
@@ -106,6 +483,17 @@ export interface JupiterPriceResponse {
 export interface ScheduledBuy {
   mint: string;
   ticker: string;
+  score: number;
   scheduledAt: Date;
   timeoutId: NodeJS.Timeout;
 }
+
+export interface DipWatch {
+  mint: string;
+  ticker: string;
+  score: number;
+  startedAt: Date;
+  expiresAt: Date;
+  highPrice: number | null; // Maior preço desde a descoberta
+  lastPrice: number | null;
+}
@@ -6,11 +6,21 @@ interface TokenStatus {
   ticker: string;
   mint: string;
   lastPrice: number | null;
+  priceSource: string | null; // Fonte do último preço (jupiter, pool, quote...)
   lastUpdate: Date;
   multiple: number | null;
   percentChange: string | null;
   soldTPs: string[];
   balance: string | null;
+  moonbag: string | null; // Parte reservada que os estágios de saída não vendem
+}
+
+interface WatchStatus {
+  ticker: string;
+  mint: string;
+  expiresAt: Date;
+  targetPercent: number; // Queda do topo necessária para comprar
+  drawdownPercent: number | null; // Queda atual a partir do topo
 }
 
 interface Transaction {
@@ -24,12 +34,17 @@ interface Transaction {
 
 class StatusMonitor {
   private tokens: Map<string, TokenStatus> = new Map();
+  private watching: Map<string, WatchStatus> = new Map();
   private transactions: Transaction[] = [];
   private lastApiCall: Date | null = null;
   private apiCallCount: number = 0;
+  private paperSol: number | null = null; // Saldo da carteira virtual (null = modo real)
+  private wallet: { balanceSol: number; reserveSol: number; warnSol: number } | null = null;
+  private buyRequiredSol: number | null = null; // Saldo exigido pela última checagem de compra (compra + reserva)
+  private pricePoller: { mints: number; requests: number; durationMs: number; at: Date; cycleMs: number | null; sources: Record<string, number> } | null = null;
   private readonly MAX_TRANSACTIONS = 10;
 
-  updatePrice(mint: string, ticker: string, price: number | null, immediate: boolean = false): void {
+  updatePrice(mint: string, ticker: string, price: number | null, immediate: boolean = false, source: string | null = null): void {
     const existing = this.tokens.get(mint);
 
     if (price !== null) {
@@ -41,11 +56,13 @@ class StatusMonitor {
       ticker,
       mint,
       lastPrice: price,
+      priceSource: price !== null ? source : null,
       lastUpdate: new Date(),
       multiple: existing?.multiple || null,
       percentChange: existing?.percentChange || null,
       soldTPs: existing?.soldTPs || [],
       balance: existing?.balance || null,
+      moonbag: existing?.moonbag || null,
     });
 
     if (immediate) {
@@ -53,30 +70,20 @@ class StatusMonitor {
     }
   }
 
-  updatePosition(mint: string, ticker: string, multiple: number, percentChange: string, soldTPs?: string[], balance?: string, immediate: boolean = true): void {
+  updatePosition(mint: string, ticker: string, multiple: number, percentChange: string, soldTPs?: string[], balance?: string, moonbag?: string, immediate: boolean = true): void {
     const existing = this.tokens.get(mint);
 
-    // Verificar se TP4 foi executado e saldo é zero
-    const hasTP4 = soldTPs?.includes('tp4') || false;
-    const balanceNum = parseFloat(balance || '0');
-
-    if (hasTP4 && balanceNum === 0) {
-      // Remover do monitoramento - posição finalizada
-      this.removeToken(mint);
-      logger.info(`${ticker} removido do monitoramento (TP4 completo, saldo zero)`);
-      this.printStatus(); // Atualizar imediatamente
-      return;
-    }
-
     this.tokens.set(mint, {
       ticker,
       mint,
       lastPrice: existing?.lastPrice || null,
+      priceSource: existing?.priceSource || null,
       lastUpdate: new Date(),
       multiple,
       percentChange,
       soldTPs: soldTPs || existing?.soldTPs || [],
       balance: balance || existing?.balance || null,
+      moonbag: moonbag || existing?.moonbag || null,
     });
 
     if (immediate) {
@@ -97,6 +104,54 @@ class StatusMonitor {
     }
   }
 
+  completeToken(mint: string): void {
+    const existing = this.tokens.get(mint);
+    if (existing) {
+      logger.info(`${existing.ticker} removido do monitoramento (saída completa, saldo zero)`);
+      this.tokens.delete(mint);
+      this.printStatus(); // Atualizar imediatamente
+    }
+  }
+
+  updateWatch(mint: string, ticker: string, expiresAt: Date, targetPercent: number, drawdownPercent: number | null): void {
+    this.watching.set(mint, { ticker, mint, expiresAt, targetPercent, drawdownPercent });
+  }
+
+  removeWatch(mint: string): void {
+    this.watching.delete(mint);
+  }
+
+  /**
+   * Registra um ciclo do poller central de preços (tokens atualizados por requisição e por fonte)
+   */
+  updatePricePoller(mints: number, requests: number, durationMs: number, sources: Record<string, number> = {}): void {
+    const at = new Date();
+    const cycleMs = this.pricePoller ? at.getTime() - this.pricePoller.at.getTime() : null;
+    this.pricePoller = { mints, requests, durationMs, at, cycleMs, sources };
+  }
+
+  /**
+   * Atualiza o saldo de SOL da wallet e a reserva para taxas (alerta quando o saldo se aproxima dela)
+   */
+  updateWallet(balanceSol: number, reserveSol: number, warnSol: number): void {
+    this.wallet = { balanceSol, reserveSol, warnSol };
+  }
+
+  /**
+   * Registra o saldo exigido pela última checagem de compra, para o alerta de compras pausadas
+   * usar o mesmo limite que bloqueia a compra
+   */
+  setBuyRequirement(requiredSol: number): void {
+    this.buyRequiredSol = requiredSol;
+  }
+
+  /**
+   * Ativa o banner de paper trading com o saldo atual da carteira virtual
+   */
+  setPaperWallet(solBalance: number): void {
+    this.paperSol = solBalance;
+  }
+
   addTransaction(type: 'COMPRA' | 'VENDA', ticker: string, amount: string, success: boolean, stage?: string, immediate: boolean = true): void {
     this.transactions.unshift({
       type,
@@ -122,6 +177,9 @@ class StatusMonitor {
     console.log(chalk.cyan('═══════════════════════════════════════════════════════════════════'));
     console.log(chalk.bold.yellow('                    🤖 TOKEN FINDER BOT - STATUS                    '));
     console.log(chalk.cyan('═══════════════════════════════════════════════════════════════════'));
+    if (this.paperSol !== null) {
+      console.log(chalk.bgYellow.black.bold(`  📝 PAPER TRADING - trades simulados, nenhum SOL real | Saldo virtual: ${this.paperSol.toFixed(4)} SOL  `));
+    }
     console.log('');
 
     // Status da API
@@ -133,27 +191,55 @@ class StatusMonitor {
     console.log(chalk.bold.blue('📡 API Jupiter:'));
     console.log(chalk.gray(`   Chamadas: ${chalk.white(this.apiCallCount)}`));
     console.log(chalk.gray(`   Última: ${chalk.white(timeSinceLastCall !== null ? timeSinceLastCall + 's atrás' : 'Nenhuma ainda')}`));
+    if (this.pricePoller) {
+      const { mints, requests, cycleMs, sources } = this.pricePoller;
+      const cycleText = cycleMs !== null ? ` | cada token atualizado a cada ${(cycleMs / 1000).toFixed(1)}s` : '';
+      console.log(chalk.gray(`   Preços: ${chalk.white(`${mints} token(s) em ${requests} requisição(ões)`)}${cycleText}`));
+      const sourcesText = Object.entries(sources).map(([source, count]) => `${source} ${count}`).join(', ');
+      if (sourcesText) {
+        console.log(chalk.gray(`   Fontes: ${chalk.white(sourcesText)}`));
+      }
+    }
     console.log('');
 
+    // Saldo da wallet e reserva de SOL para taxas
+    if (this.wallet) {
+      const { balanceSol, reserveSol, warnSol } = this.wallet;
+      console.log(chalk.bold.blue('💰 Wallet:'));
+      console.log(chalk.gray(`   Saldo: ${chalk.white(balanceSol.toFixed(4) + ' SOL')} | Reserva: ${chalk.white(reserveSol.toFixed(4) + ' SOL')}`));
+      if (balanceSol < reserveSol) {
+        console.log(chalk.bold.red('   🚨 Saldo abaixo da reserva - compras pausadas'));
+      } else if (this.buyRequiredSol !== null && balanceSol < this.buyRequiredSol) {
+        console.log(chalk.bold.red(`   🚨 Saldo abaixo de ${this.buyRequiredSol.toFixed(4)} SOL (última compra + reserva) - compras pausadas`));
+      } else if (balanceSol - reserveSol < warnSol) {
+        console.log(chalk.bold.yellow(`   ⚠️ Saldo próximo da reserva (${(balanceSol - reserveSol).toFixed(4)} SOL disponíveis para compras)`));
+      }
+      console.log('');
+    }
+
     // Tokens monitorados
     if (this.tokens.size === 0) {
       console.log(chalk.gray('📊 Nenhum token sendo monitorado'));
     } else {
       console.log(chalk.bold.cyan(`📊 Tokens Monitorados (${this.tokens.size}):`));
 
+      // Coluna de moonbag só aparece quando alguma posição tem moonbag reservado
+      const showMoonbag = Array.from(this.tokens.values()).some(token => token.moonbag);
+
       const table = new Table({
         head: [
           chalk.bold('Ticker'),
           chalk.bold('Performance'),
           chalk.bold('Status'),
           chalk.bold('Saldo'),
+          ...(showMoonbag ? [chalk.bold('🌙 Moonbag')] : []),
           chalk.bold('Update')
         ],
         style: {
           head: [],
           border: ['cyan']
         },
-        colWidths: [12, 25, 12, 14, 10]
+        colWidths: showMoonbag ? [12, 25, 12, 14, 12, 16] : [12, 25, 12, 14, 16]
       });
 
       // Ordenar por ticker para manter ordem estável (fallback por mint se ticker igual)
@@ -191,15 +277,52 @@ class StatusMonitor {
           ? chalk.white(balance)
           : chalk.gray(balance);
 
-        // Update
-        const updated = `${timeAgo}s`;
+        // Update (com a fonte do último preço)
+        const updated = token.priceSource ? `${timeAgo}s ${chalk.gray(token.priceSource)}` : `${timeAgo}s`;
 
-        table.push([ticker, performance, status, balanceText, updated]);
+        if (showMoonbag) {
+          const moonbagText = token.moonbag ? chalk.magenta(token.moonbag) : chalk.gray('-');
+          table.push([ticker, performance, status, balanceText, moonbagText, updated]);
+        } else {
+          table.push([ticker, performance, status, balanceText, updated]);
+        }
       }
 
       console.log(table.toString());
     }
 
+    // Tokens aguardando pullback (ENTRY_MODE=dip)
+    if (this.watching.size > 0) {
+      console.log('');
+      console.log(chalk.bold.yellow(`👀 Aguardando Pullback (${this.watching.size}):`));
+
+      const watchTable = new Table({
+        head: [
+          chalk.bold('Ticker'),
+          chalk.bold('Queda do Topo'),
+          chalk.bold('Alvo'),
+          chalk.bold('Restante')
+        ],
+        style: {
+          head: [],
+          border: ['yellow']
+        },
+        colWidths: [12, 16, 10, 12]
+      });
+
+      for (const watch of this.watching.values()) {
+        const remaining = Math.max(0, Math.floor((watch.expiresAt.getTime() - now.getTime()) / 1000));
+        const remainingText = remaining < 60 ? `${remaining}s` : `${Math.floor(remaining / 60)}m${remaining % 60}s`;
+        const drawdown = watch.drawdownPercent !== null
+          ? chalk.red(`-${watch.drawdownPercent.toFixed(2)}%`)
+          : chalk.gray('N/A');
+
+        watchTable.push([watch.ticker.substring(0, 10), drawdown, `-${watch.targetPercent}%`, remainingText]);
+      }
+
+      console.log(watchTable.toString());
+    }
+
     // Tabela de transações
     console.log('');
     if (this.transactions.length > 0) {